@@ -1,19 +1,47 @@
 "use client"
 
 import React from "react"
-import { useState, useMemo, useRef, useEffect } from "react"
+import { useState, useMemo, useRef, useEffect, useCallback } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
 import rawData from '../data.json'
 
 // Import our refactored components and hooks
 import { GraphVisualization } from '@/components/graph/GraphVisualization'
 import { useProcessedGraphData } from '@/hooks/useProcessedGraphData'
 import { GraphRenderConfig } from '@/types/graph'
-import { DataRecord, DataExample } from '@/types/common'
-import { matchRules } from '@/components/match-score/MatchRules'
+import { DataRecord, DataExample, NodeData } from '@/types/common'
+import { FieldSimilarity, MatchRule, Ruleset, RulesetValidationIssue } from '@/types/match-rules'
+import { ColumnType } from '@/types/schema'
+import { defaultRuleset } from '@/components/match-score/MatchRules'
+import { DEFAULT_RULE_FIELDS, formatExpression, loadRulesetFromText, RulesetValidationError, serializeRuleset, validateRuleset } from '@/utils/rule-utils'
+import { createEmptyRecord, DEFAULT_SCHEMA, getSchemaFields, inferSchema, toDataRecord } from '@/utils/schema-utils'
+import { downloadJsonFile } from '@/utils/download-utils'
+import { collectMatchedValues, toValueList } from '@/utils/field-utils'
+import { RuleTreeEditor } from '@/components/rule-editor/RuleTreeEditor'
+import { RuleTestPanel } from '@/components/rule-editor/RuleTestPanel'
+import { RulesetVersionPanel } from '@/components/rule-editor/RulesetVersionPanel'
+import { CounterfactualPanel } from '@/components/rule-editor/CounterfactualPanel'
+import { evaluateCounterfactuals } from '@/components/match-score/CounterfactualAnalyzer'
+import { PairInspectorPanel } from '@/components/rule-editor/PairInspectorPanel'
+import { RuleAnalyticsPanel } from '@/components/rule-editor/RuleAnalyticsPanel'
+import { BlockingPanel } from '@/components/rule-editor/BlockingPanel'
+import { DataImportWizard } from '@/components/data-import/DataImportWizard'
+import { DataProfilePanel } from '@/components/data-profile/DataProfilePanel'
+import { profileDataset } from '@/utils/profiling-utils'
+import { validateRecords } from '@/utils/validation-utils'
+import { WorkspacePanel } from '@/components/workspace/WorkspacePanel'
+import { useWorkspaces } from '@/hooks/useWorkspaces'
+import { Workspace } from '@/types/workspace'
+import { createWorkspaceFile, parseWorkspaceFile } from '@/utils/workspace-utils'
+import { RecordFilter } from '@/types/profiling'
+import { calculateRuleAnalytics } from '@/components/match-score/RuleAnalytics'
+import { evaluateAllRules, evaluateConstraints } from '@/components/match-score/RuleEvaluator'
+import { useRulesetVersions } from '@/hooks/useRulesetVersions'
+import { runRuleTests } from '@/components/match-score/RuleTestRunner'
 
 // Recursive component to render all match rules and their children
-function RenderMatchRules({ rules, level = 0 }: { rules: typeof matchRules; level?: number }) {
+function RenderMatchRules({ rules, level = 0 }: { rules: MatchRule[]; level?: number }) {
   return (
     <div className="space-y-1">
       {rules.map((rule) => (
@@ -35,7 +63,18 @@ function RenderMatchRules({ rules, level = 0 }: { rules: typeof matchRules; leve
           >
             {/* Rule Fields */}
             <span className="text-xs">
-              {rule.name}: {rule.fields.join(' + ')}
+              {rule.name}: {rule.match ? formatExpression(rule.match) : rule.fields
+                .map(field => rule.comparators?.[field] ? `${field}~${rule.comparators[field].type}` : field)
+                .join(' + ')}
+              {rule.when && <span className="ml-1 text-gray-500">when {formatExpression(rule.when)}</span>}
+              {rule.constraint && (
+                <span className="ml-1 px-1 rounded bg-purple-100 text-purple-700">
+                  {rule.constraint === 'mustLink' ? 'must-link' : 'cannot-link'}
+                </span>
+              )}
+              {rule.weight !== undefined && rule.weight !== 1 && (
+                <span className="ml-1 font-mono text-gray-500">×{rule.weight}</span>
+              )}
             </span>
           </div>
           
@@ -51,16 +90,118 @@ function RenderMatchRules({ rules, level = 0 }: { rules: typeof matchRules; leve
   )
 }
 
+// Data table header color per column type
+const COLUMN_TYPE_COLORS: Record<ColumnType, string> = {
+  text: 'text-green-700',
+  email: 'text-blue-700',
+  phone: 'text-blue-700',
+  id: 'text-purple-700',
+  number: 'text-gray-700',
+  date: 'text-gray-700'
+}
+
+// Field value as evaluated, with the original value underneath when normalization changed it
+function FieldValue({ node, field, matched }: { node: NodeData; field: string; matched?: string[] }) {
+  const values = toValueList(node[field])
+  const raw = node.rawValues?.[field]
+  return (
+    <span>
+      {values.length === 0 ? "—" : values.length === 1 && !matched?.length ? values[0] : values.map(value => (
+        // Multi-valued fields list each value, marking the ones that matched the other record
+        <span key={value} className={`block ${matched?.includes(value) ? 'text-green-700 font-medium' : ''}`}>
+          {matched?.includes(value) ? '✓ ' : ''}{value}
+        </span>
+      ))}
+      {raw !== undefined && (
+        <span className="block text-[10px] text-gray-400" title="Original value before normalization">
+          raw: {raw}
+        </span>
+      )}
+    </span>
+  )
+}
+
 export default function GraphExplorerRefactored() {
   const [hoveredNode, setHoveredNode] = useState<any>(null)
   const [hoveredEdge, setHoveredEdge] = useState<any>(null)
   const [selectedNode, setSelectedNode] = useState<any>(null)
   const [selectedEdge, setSelectedEdge] = useState<any>(null)
+  // Second record picked for a selected node, to analyze a pair that has no edge
+  const [compareNodeId, setCompareNodeId] = useState<string | null>(null)
+  // Draw pairs where every rule is neutral as faint dotted edges
+  const [showNeutralEdges, setShowNeutralEdges] = useState(false)
   const [selectedDataExample, setSelectedDataExample] = useState(0)
   const [graphHeight, setGraphHeight] = useState(600)
   const [leftPanelWidth, setLeftPanelWidth] = useState(320)
   const [rightPanelWidth, setRightPanelWidth] = useState(320)
   const [isClient, setIsClient] = useState(false)
+  // Datasets imported from files this session, listed after the built-in examples
+  const [importedExamples, setImportedExamples] = useState<DataExample[]>([])
+  const [showImportWizard, setShowImportWizard] = useState(false)
+  const [showProfile, setShowProfile] = useState(false)
+  // Records the data table is narrowed to from the profile
+  const [recordFilter, setRecordFilter] = useState<RecordFilter | null>(null)
+  // Leave records failing the ruleset's validation out of scoring
+  const [excludeInvalidRecords, setExcludeInvalidRecords] = useState(false)
+  const [showWorkspaces, setShowWorkspaces] = useState(false)
+  // Workspace being autosaved, and the dataset it belongs to
+  const [openWorkspace, setOpenWorkspace] = useState<{ id: string; name: string; example: number } | null>(null)
+  // Where each workspace opened this session was loaded into the imported datasets, so reopening replaces it
+  const [workspaceExamples, setWorkspaceExamples] = useState<Record<string, number>>({})
+
+  const dataExamples = useMemo(
+    () => [...(rawData as DataExample[]), ...importedExamples],
+    [importedExamples]
+  )
+
+  // Columns of the selected dataset - declared with the example or inferred from its records
+  const datasetSchema = useMemo(() => {
+    const example = dataExamples[selectedDataExample]
+    return example ? inferSchema(example.data, example.schema) : DEFAULT_SCHEMA
+  }, [dataExamples, selectedDataExample])
+
+  // Fields rule files may use - the usual ones plus this dataset's columns
+  const ruleFields = useMemo(
+    () => Array.from(new Set([...DEFAULT_RULE_FIELDS, ...getSchemaFields(datasetSchema)])),
+    [datasetSchema]
+  )
+
+  // Active ruleset - starts from match-rules.json, can be replaced by loading a rule file
+  const [ruleset, setRuleset] = useState<Ruleset>(defaultRuleset)
+  const [rulesetIssues, setRulesetIssues] = useState<RulesetValidationIssue[]>([])
+
+  // Draft ruleset from the rule editor - previewed live in the graph until committed
+  const [draftRuleset, setDraftRuleset] = useState<Ruleset | null>(null)
+  const activeRuleset = draftRuleset || ruleset
+
+  const draftIssues = useMemo(() => {
+    return draftRuleset ? validateRuleset(serializeRuleset(draftRuleset), ruleFields) : []
+  }, [draftRuleset, ruleFields])
+
+  // Labeled test pairs, re-run against the draft while editing so regressions show immediately
+  const ruleTestResults = useMemo(() => runRuleTests(activeRuleset), [activeRuleset])
+  const committedTestResults = useMemo(() => {
+    return draftRuleset ? runRuleTests(ruleset) : undefined
+  }, [draftRuleset, ruleset])
+
+  // Named ruleset versions saved in the browser, for diffing what a rule change does to the graph
+  const { versions: rulesetVersions, skipped: skippedVersions, saveVersion, deleteVersion } = useRulesetVersions()
+
+  // Load a user-supplied JSON/YAML rule file, keeping the current ruleset if it is invalid
+  const handleRulesetFile = async (file: File) => {
+    try {
+      const text = await file.text()
+      setRuleset(loadRulesetFromText(text, file.name, ruleFields))
+      setDraftRuleset(null)
+      setRulesetIssues([])
+    } catch (error) {
+      if (error instanceof RulesetValidationError) {
+        setRulesetIssues(error.issues)
+      } else {
+        setRulesetIssues([{ path: '', message: error instanceof Error ? error.message : String(error) }])
+      }
+    }
+  }
 
   // Dynamic data creation state
   const [showDynamicForm, setShowDynamicForm] = useState(false)
@@ -71,6 +212,8 @@ export default function GraphExplorerRefactored() {
 
   // Editable data state for all examples
   const [editableData, setEditableData] = useState<Array<DataRecord>>([])
+  // Dataset editableData was loaded from - until the load effect has run it still holds the previous dataset
+  const [editableDataExample, setEditableDataExample] = useState<number | null>(null)
 
   // Helper functions to generate random realistic data
   const generateRandomSalutation = () => {
@@ -116,15 +259,7 @@ export default function GraphExplorerRefactored() {
   // Row addition functions
   const addEmptyRecord = () => {
     const newId = `id-${String(dynamicRecords.length + 1).padStart(3, '0')}`
-    setDynamicRecords([...dynamicRecords, {
-      "Record-Id": newId,
-      "Salutation": "",
-      "First Name": "",
-      "Last Name": "",
-      "Email": "",
-      "Phone": "",
-      "Party": ""
-    }])
+    setDynamicRecords([...dynamicRecords, createEmptyRecord(datasetSchema, newId)])
   }
 
   const addFullRecord = () => {
@@ -166,7 +301,7 @@ export default function GraphExplorerRefactored() {
     }
     
     setDynamicRecords([...dynamicRecords, {
-      "Record-Id": newId,
+      ...createEmptyRecord(datasetSchema, newId),
       "Salutation": reusedFields.salutation,
       "First Name": firstName,
       "Last Name": lastName,
@@ -204,7 +339,7 @@ export default function GraphExplorerRefactored() {
     const fields = ['salutation', 'firstName', 'lastName', 'email', 'phone', 'party']
     const numFieldsToFill = Math.floor(Math.random() * 4) + 2 // Fill 2-5 fields
     
-    const record: any = { "Record-Id": newId }
+    const record: any = createEmptyRecord(datasetSchema, newId)
     fields.forEach(field => {
       if (Math.random() < numFieldsToFill / fields.length) {
         switch(field) {
@@ -279,7 +414,7 @@ export default function GraphExplorerRefactored() {
     }
     
     const newRecord = {
-      "Record-Id": newId,
+      ...createEmptyRecord(datasetSchema, newId),
       "Salutation": reusedFields.salutation,
       "First Name": firstName,
       "Last Name": lastName,
@@ -319,7 +454,7 @@ export default function GraphExplorerRefactored() {
     const fields = ['salutation', 'firstName', 'lastName', 'email', 'phone', 'party']
     const numFieldsToFill = Math.floor(Math.random() * 4) + 2 // Fill 2-5 fields
     
-    const record: any = { "Record-Id": newId }
+    const record: any = createEmptyRecord(datasetSchema, newId)
     fields.forEach(field => {
       if (Math.random() < numFieldsToFill / fields.length) {
         switch(field) {
@@ -356,15 +491,7 @@ export default function GraphExplorerRefactored() {
 
   const addEmptyRecordToExample = () => {
     const newId = `R${String(editableData.length + 1)}`
-    setEditableData([...editableData, {
-      "Record-Id": newId,
-      "Salutation": "",
-      "First Name": "",
-      "Last Name": "",
-      "Email": "",
-      "Phone": "",
-      "Party": ""
-    }])
+    setEditableData([...editableData, createEmptyRecord(datasetSchema, newId)])
   }
 
   useEffect(() => {
@@ -373,45 +500,31 @@ export default function GraphExplorerRefactored() {
 
   // Initialize editable data when example is selected
   useEffect(() => {
-    if (selectedDataExample !== -1 && rawData[selectedDataExample]) {
-      const exampleData = rawData[selectedDataExample].data
-      const editableRecords = exampleData.map((record: any) => ({
-        "Record-Id": record["Record-Id"] || "",
-        "Salutation": record["Salutation"] || "",
-        "First Name": record["First Name"] || "",
-        "Last Name": record["Last Name"] || "",
-        "Email": record["Email"] || "",
-        "Phone": record["Phone"] || "",
-        "Party": record["Party"] || "",
-      }))
+    if (selectedDataExample !== -1 && dataExamples[selectedDataExample]) {
+      const exampleData = dataExamples[selectedDataExample].data
+      const editableRecords = exampleData.map(record => toDataRecord(record, datasetSchema))
       setEditableData(editableRecords)
     } else {
       setEditableData([])
     }
+    setEditableDataExample(selectedDataExample)
     
     // Clear edge states when switching examples to prevent data mismatch
     setSelectedEdge(null)
     setHoveredEdge(null)
     setSelectedNode(null)
     setHoveredNode(null)
-  }, [selectedDataExample, rawData])
+  }, [selectedDataExample, dataExamples, datasetSchema])
 
   // Initialize with first example data on component mount
   useEffect(() => {
-    if (selectedDataExample === 0 && rawData[0] && editableData.length === 0) {
-      const exampleData = rawData[0].data
-      const editableRecords = exampleData.map((record: any) => ({
-        "Record-Id": record["Record-Id"] || "",
-        "Salutation": record["Salutation"] || "",
-        "First Name": record["First Name"] || "",
-        "Last Name": record["Last Name"] || "",
-        "Email": record["Email"] || "",
-        "Phone": record["Phone"] || "",
-        "Party": record["Party"] || "",
-      }))
+    if (selectedDataExample === 0 && dataExamples[0] && editableData.length === 0) {
+      const exampleData = dataExamples[0].data
+      const editableRecords = exampleData.map(record => toDataRecord(record, datasetSchema))
       setEditableData(editableRecords)
+      setEditableDataExample(0)
     }
-  }, [selectedDataExample, rawData, editableData.length])
+  }, [selectedDataExample, dataExamples, editableData.length, datasetSchema])
 
   // Get the currently selected data set
   const currentData = useMemo(() => {
@@ -421,13 +534,121 @@ export default function GraphExplorerRefactored() {
       // If an example is selected, use editableData if it has content, otherwise fall back to raw data
       if (editableData.length > 0) {
         return editableData
-      } else if (rawData[selectedDataExample]?.data) {
-        return rawData[selectedDataExample].data
+      } else if (dataExamples[selectedDataExample]?.data) {
+        return dataExamples[selectedDataExample].data
       } else {
         return []
       }
     }
-  }, [selectedDataExample, dynamicRecords, editableData, rawData])
+  }, [selectedDataExample, dynamicRecords, editableData, dataExamples])
+
+  // Data-quality profile of the loaded records, only worked out while the profile is shown
+  const dataProfile = useMemo(
+    () => (showProfile ? profileDataset(currentData, datasetSchema) : null),
+    [showProfile, currentData, datasetSchema]
+  )
+
+  // Validation errors of the records being scored - shown inline, and the records skipped when invalid ones are
+  const recordErrors = useMemo(
+    () => validateRecords(currentData, datasetSchema, activeRuleset.validation),
+    [currentData, datasetSchema, activeRuleset.validation]
+  )
+  const excludedRecordIds = useMemo(
+    () => (excludeInvalidRecords ? Array.from(recordErrors.keys()) : []),
+    [excludeInvalidRecords, recordErrors]
+  )
+
+  // The records, committed rules and graph options shown now, as a workspace. A rule editor draft is left out -
+  // it may not be valid yet, and a workspace must always load back
+  const toWorkspace = useCallback((id: string, name: string): Workspace => ({
+    id,
+    name,
+    savedAt: '',
+    dataset: { name, schema: datasetSchema, data: currentData },
+    ruleset,
+    settings: { showNeutralEdges, excludeInvalidRecords }
+  }), [datasetSchema, currentData, ruleset, showNeutralEdges, excludeInvalidRecords])
+
+  // The open workspace as it is now - only while its dataset is selected and its records are loaded in the table,
+  // so neither another dataset nor records not yet restored are ever saved over it
+  const currentWorkspace = useMemo(
+    () => (openWorkspace && openWorkspace.example === selectedDataExample && editableDataExample === selectedDataExample
+      ? toWorkspace(openWorkspace.id, openWorkspace.name)
+      : null),
+    [openWorkspace, selectedDataExample, editableDataExample, toWorkspace]
+  )
+
+  // Saved workspaces; the open one is autosaved as it changes
+  const { workspaces, skipped: skippedWorkspaces, error: workspaceError, saveWorkspace, deleteWorkspace } = useWorkspaces(currentWorkspace)
+
+  // Position in importedExamples of a dataset in the example selector
+  const toImportedIndex = (index: number) => index - (dataExamples.length - importedExamples.length)
+
+  // Imported datasets with the open workspace's edited records written back into its dataset, so they are still
+  // there when the dataset is selected again. Called before every switch away from it.
+  const withWorkspaceEdits = (examples: DataExample[]): DataExample[] => {
+    if (!currentWorkspace || !openWorkspace) return examples
+    return examples.map((example, index) =>
+      index === toImportedIndex(openWorkspace.example) ? { ...example, data: currentWorkspace.dataset.data } : example
+    )
+  }
+
+  const selectDataExample = (index: number) => {
+    if (currentWorkspace) setImportedExamples(withWorkspaceEdits(importedExamples))
+    setSelectedDataExample(index)
+  }
+
+  // The records are copied into a dataset of their own, so the workspace's edits never touch the dataset they came from
+  const handleSaveWorkspace = (name: string) => {
+    const workspace = toWorkspace(`${Date.now()}`, name)
+    const index = dataExamples.length
+    saveWorkspace(workspace)
+      .then(() => {
+        setImportedExamples([...withWorkspaceEdits(importedExamples), { ...workspace.dataset, name: `💾 ${name}` }])
+        setWorkspaceExamples({ ...workspaceExamples, [workspace.id]: index })
+        setSelectedDataExample(index)
+        setOpenWorkspace({ id: workspace.id, name, example: index })
+      })
+      .catch(() => {})
+  }
+
+  // Load a workspace's records as an imported dataset and its rules and options into the explorer
+  const handleOpenWorkspace = (workspace: Workspace) => {
+    const index = workspaceExamples[workspace.id] ?? dataExamples.length
+    const nextImported = withWorkspaceEdits(importedExamples)
+    nextImported[toImportedIndex(index)] = { ...workspace.dataset, name: `💾 ${workspace.name}` }
+    setImportedExamples(nextImported)
+    setWorkspaceExamples({ ...workspaceExamples, [workspace.id]: index })
+    setSelectedDataExample(index)
+    setRuleset(workspace.ruleset)
+    setDraftRuleset(null)
+    setRulesetIssues([])
+    setShowNeutralEdges(workspace.settings.showNeutralEdges)
+    setExcludeInvalidRecords(workspace.settings.excludeInvalidRecords)
+    setOpenWorkspace({ id: workspace.id, name: workspace.name, example: index })
+  }
+
+  const handleDeleteWorkspace = (id: string) => {
+    if (openWorkspace?.id === id) setOpenWorkspace(null)
+    deleteWorkspace(id)
+  }
+
+  // The open workspace is exported as it is now, even if its autosave is still pending
+  const handleExportWorkspace = (workspace: Workspace) => {
+    const latest = currentWorkspace?.id === workspace.id ? { ...currentWorkspace, savedAt: new Date().toISOString() } : workspace
+    downloadJsonFile(`${latest.name.replace(/[^a-z0-9-_]+/gi, '_')}.workspace.json`, createWorkspaceFile(latest))
+  }
+
+  // A shared workspace file is saved in this browser as a new workspace, then opened
+  const handleImportWorkspace = async (file: File) => {
+    const workspace = parseWorkspaceFile(await file.text())
+    handleOpenWorkspace(await saveWorkspace({ ...workspace, id: `${Date.now()}` }))
+  }
+
+  // A filter picked for one dataset means nothing for another
+  useEffect(() => {
+    setRecordFilter(null)
+  }, [selectedDataExample])
 
   // Use our unified hook that manages the complete data flow
   const { 
@@ -439,13 +660,26 @@ export default function GraphExplorerRefactored() {
     uniqueClusterIds,
     getNodeColor,
     nodeClusters,
-    detectConstraintViolations
+    detectConstraintViolations,
+    availableFields,
+    basicNodes,
+    candidates,
+    blockingStats,
+    progress,
+    highlight,
+    cancelled,
+    cancel,
+    restart
   } = useProcessedGraphData(
     currentData, 
+    datasetSchema,
+    activeRuleset,
     selectedDataExample, 
     graphHeight, 
     leftPanelWidth, 
-    rightPanelWidth
+    rightPanelWidth,
+    showNeutralEdges,
+    excludedRecordIds
   )
 
   // Helper function to get node data by record ID
@@ -453,6 +687,77 @@ export default function GraphExplorerRefactored() {
     return finalNodeData.find(node => node.recordId === recordId)
   }
 
+  // Pinned pair - the selected edge, or the selected node and the record compared with it
+  const pinnedPair = useMemo(() => {
+    const pair = selectedEdge
+      ? [selectedEdge.from, selectedEdge.to]
+      : selectedNode && compareNodeId ? [selectedNode.recordId, compareNodeId] : null
+    if (!pair) return null
+
+    const node1 = finalNodeData.find(node => node.recordId === pair[0])
+    const node2 = finalNodeData.find(node => node.recordId === pair[1])
+    return node1 && node2 ? [node1, node2] as const : null
+  }, [selectedEdge, selectedNode, compareNodeId, finalNodeData])
+
+  // Full rule evaluation of the pinned pair, including pairs calculateEdges dropped as all-neutral
+  // and pairs blocking never scored
+  const pairInspection = useMemo(() => {
+    if (!pinnedPair) return null
+    const [node1, node2] = pinnedPair
+    const index1 = finalNodeData.indexOf(node1)
+    const index2 = finalNodeData.indexOf(node2)
+
+    try {
+      return {
+        evaluation: evaluateAllRules(node1, node2, activeRuleset),
+        constraint: evaluateConstraints(node1, node2, activeRuleset),
+        hasEdge: edges.some(edge =>
+          (edge.from === node1.recordId && edge.to === node2.recordId) ||
+          (edge.from === node2.recordId && edge.to === node1.recordId)
+        ),
+        isCandidate: candidates.pairs.some(([i, j]) =>
+          i === Math.min(index1, index2) && j === Math.max(index1, index2)
+        )
+      }
+    } catch (error) {
+      console.error('Error inspecting pair:', error)
+      return null
+    }
+  }, [pinnedPair, activeRuleset, edges, candidates, finalNodeData])
+
+  // Rule firing across every scored record pair of the dataset
+  const ruleAnalytics = useMemo(
+    () => calculateRuleAnalytics(edges, candidates.pairs.length, activeRuleset),
+    [edges, candidates, activeRuleset]
+  )
+
+  // Multi-valued field values that matched on the highlighted edge, per record - shown in the data table
+  const tableMatchedValues = useMemo(() => {
+    const edge = selectedEdge || hoveredEdge
+    const byRecord: Record<string, Record<string, string[]>> = {}
+    if (!edge?.results) return byRecord
+
+    byRecord[edge.from] = {}
+    byRecord[edge.to] = {}
+    for (const [field, [values1, values2]] of Object.entries(collectMatchedValues(edge.results))) {
+      byRecord[edge.from][field] = values1
+      byRecord[edge.to][field] = values2
+    }
+    return byRecord
+  }, [selectedEdge, hoveredEdge])
+
+  // Counterfactuals for the pinned pair
+  const counterfactualAnalysis = useMemo(() => {
+    if (!pinnedPair) return null
+
+    try {
+      return evaluateCounterfactuals(pinnedPair[0], pinnedPair[1], activeRuleset)
+    } catch (error) {
+      console.error('Error evaluating counterfactuals:', error)
+      return null
+    }
+  }, [pinnedPair, activeRuleset])
+
   // Helper function to format node name
   const formatName = (node: any) => {
     const parts = [node.salutation, node.firstName, node.lastName].filter(Boolean)
@@ -479,6 +784,7 @@ export default function GraphExplorerRefactored() {
   const handleNodeClick = (node: any) => {
     setSelectedNode(node)
     setSelectedEdge(null)
+    setCompareNodeId(null)
   }
 
   const handleEdgeHover = (edge: any) => {
@@ -553,13 +859,136 @@ export default function GraphExplorerRefactored() {
 
           {/* Match Rules Hierarchy - Always Visible */}
           <Card className="border-blue-200 bg-blue-50">
-            <CardContent className="p-1">
+            <CardContent className="p-1 space-y-1">
+              <div className="flex items-center justify-between px-1">
+                <span className="text-xs font-medium text-blue-700">
+                  {ruleset.name} <span className="text-blue-400">v{ruleset.version}</span>
+                  {draftRuleset && <span className="ml-1 text-orange-500">(editing)</span>}
+                </span>
+                <div className="flex items-center gap-1">
+                  {!draftRuleset && (
+                    <button
+                      onClick={() => setDraftRuleset(ruleset)}
+                      className="px-2 py-0.5 text-xs bg-green-500 hover:bg-green-600 text-white rounded transition-colors"
+                      title="Edit the rule tree - changes are previewed live in the graph"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  <label
+                    className="px-2 py-0.5 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors cursor-pointer"
+                    title="Load match rules from a JSON or YAML rule file"
+                  >
+                    Load Rules
+                    <input
+                      type="file"
+                      accept=".json,.yaml,.yml"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0]
+                        if (file) handleRulesetFile(file)
+                        e.target.value = ""
+                      }}
+                    />
+                  </label>
+                  {ruleset !== defaultRuleset && (
+                    <button
+                      onClick={() => {
+                        setRuleset(defaultRuleset)
+                        setDraftRuleset(null)
+                        setRulesetIssues([])
+                      }}
+                      className="px-2 py-0.5 text-xs bg-gray-500 hover:bg-gray-600 text-white rounded transition-colors"
+                      title="Go back to the default match rules"
+                    >
+                      Default
+                    </button>
+                  )}
+                </div>
+              </div>
+              {rulesetIssues.length > 0 && (
+                <div className="p-2 bg-red-50 rounded border border-red-200 text-xs text-red-700">
+                  <div className="font-medium mb-1">Rule file rejected:</div>
+                  {rulesetIssues.map((issue, index) => (
+                    <div key={index}>
+                      {issue.path && <span className="font-mono">{issue.path}: </span>}
+                      {issue.message}
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="bg-white rounded border border-blue-200">
-                <RenderMatchRules rules={matchRules} />
+                {draftRuleset ? (
+                  <RuleTreeEditor
+                    ruleset={draftRuleset}
+                    availableFields={availableFields}
+                    issues={draftIssues}
+                    isDirty={draftRuleset !== ruleset}
+                    onChange={setDraftRuleset}
+                    onCommit={() => {
+                      setRuleset(draftRuleset)
+                      setDraftRuleset(null)
+                    }}
+                    onDiscard={() => setDraftRuleset(null)}
+                    onExport={() => downloadJsonFile('match-rules.json', serializeRuleset(draftRuleset))}
+                  />
+                ) : (
+                  <RenderMatchRules rules={ruleset.rules} />
+                )}
               </div>
             </CardContent>
           </Card>
 
+          {/* Rule Tests */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">🧪 Rule Tests</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <RuleTestPanel results={ruleTestResults} committedResults={committedTestResults} />
+            </CardContent>
+          </Card>
+
+          {/* Ruleset Versions */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">🗂️ Ruleset Versions</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <RulesetVersionPanel
+                nodes={basicNodes}
+                currentRuleset={activeRuleset}
+                excludedRecordIds={excludedRecordIds}
+                versions={rulesetVersions}
+                skipped={skippedVersions}
+                onSave={name => saveVersion(name, activeRuleset, ruleFields)}
+                onDelete={deleteVersion}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Blocking */}
+          {blockingStats && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">🧱 Blocking</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <BlockingPanel stats={blockingStats} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Rule Analytics */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">📈 Rule Analytics</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <RuleAnalyticsPanel analytics={ruleAnalytics} />
+            </CardContent>
+          </Card>
+
           {/* Statistics */}
           <Card>
             <CardHeader className="pb-2">
@@ -572,7 +1001,7 @@ export default function GraphExplorerRefactored() {
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Total Edges:</span>
-                <span className="font-medium">{unifiedEdges.length}</span>
+                <span className="font-medium">{edges.length}</span>
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Total Clusters:</span>
@@ -618,6 +1047,33 @@ export default function GraphExplorerRefactored() {
             </CardContent>
           </Card>
 
+          {/* Constraint Overrides - clustering decisions made by must-link / cannot-link rules */}
+          {clusteringResult.constraintOverrides.length > 0 && (
+            <Card className="border-purple-200 bg-purple-50">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base text-purple-700">🔒 Constraint Overrides</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div className="text-sm text-purple-600 mb-3">
+                  Hard constraint rules decided these pairs instead of the match score.
+                </div>
+                {clusteringResult.constraintOverrides.map((override, index) => (
+                  <div key={index} className="p-3 bg-purple-100 rounded border border-purple-200">
+                    <div className="text-sm font-medium text-purple-800">
+                      {override.node1} {override.constraint === 'mustLink' ? '⇔' : '⊘'} {override.node2}
+                      <span className="ml-2 text-xs font-normal">
+                        {override.constraint === 'mustLink' ? 'must-link' : 'cannot-link'} ({override.rules.join(', ')})
+                      </span>
+                    </div>
+                    <div className={`text-xs ${override.effect === 'blocked' ? 'text-red-600' : 'text-purple-600'}`}>
+                      {override.message}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Constraint Violations */}
           {detectConstraintViolations.length > 0 && (
             <Card className="border-red-200 bg-red-50">
@@ -656,7 +1112,44 @@ export default function GraphExplorerRefactored() {
             minHeight: '600px'
           }}
         >
+          {/* Neutral pair toggle */}
+          <label className="absolute top-2 left-2 z-10 flex items-center gap-1 px-2 py-1 bg-white/90 rounded border border-gray-200 text-xs text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showNeutralEdges}
+              onChange={e => setShowNeutralEdges(e.target.checked)}
+            />
+            Show neutral pairs
+          </label>
 
+          {/* Pipeline progress - scoring and clustering run in a worker */}
+          {(progress || cancelled) && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 w-72 px-2 py-1.5 bg-white/90 rounded border border-gray-200 text-xs text-gray-600 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span>
+                  {cancelled
+                    ? 'Scoring cancelled - showing partial edges'
+                    : progress!.phase === 'blocking'
+                    ? 'Finding candidate pairs…'
+                    : progress!.phase === 'scoring'
+                    ? `Scoring pairs ${progress!.done.toLocaleString()} / ${progress!.total.toLocaleString()}`
+                    : 'Clustering…'}
+                </span>
+                <button
+                  onClick={cancelled ? restart : cancel}
+                  className="px-2 py-0.5 text-xs bg-gray-500 hover:bg-gray-600 text-white rounded transition-colors"
+                >
+                  {cancelled ? 'Restart' : 'Cancel'}
+                </button>
+              </div>
+              {progress && (
+                <Progress
+                  className="h-1.5"
+                  value={progress.phase === 'scoring' ? (progress.done / Math.max(progress.total, 1)) * 100 : progress.phase === 'clustering' ? 100 : 0}
+                />
+              )}
+            </div>
+          )}
           
           <GraphVisualization
             nodes={finalNodeData}
@@ -680,6 +1173,7 @@ export default function GraphExplorerRefactored() {
             hoveredEdge={hoveredEdge}
             selectedEdge={selectedEdge}
             getNodeColor={getNodeColor}
+            highlight={highlight}
           />
         </div>
 
@@ -699,7 +1193,7 @@ export default function GraphExplorerRefactored() {
                   value={selectedDataExample}
                   onChange={(e) => {
                     const newExample = Number(e.target.value)
-                    setSelectedDataExample(newExample)
+                    selectDataExample(newExample)
                     setSelectedEdge(null)
                     setHoveredEdge(null)
                     setSelectedNode(null)
@@ -708,7 +1202,7 @@ export default function GraphExplorerRefactored() {
                   className="px-2 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-transparent"
                 >
                   <option value={-1} className="font-semibold text-blue-600">🆕 NEW - Custom Data</option>
-                  {rawData.map((example, index) => (
+                  {dataExamples.map((example, index) => (
                     <option key={index} value={index}>
                       {example.name}
                     </option>
@@ -717,6 +1211,62 @@ export default function GraphExplorerRefactored() {
                 <div className="text-xs text-gray-500">
                   {currentData.length} records
                 </div>
+                <button
+                  onClick={() => setShowImportWizard(!showImportWizard)}
+                  className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                    showImportWizard ? 'bg-blue-600 text-white' : 'bg-white border border-blue-300 text-blue-700 hover:bg-blue-50'
+                  }`}
+                  title="Import a CSV/TSV, JSON Lines, Excel or Parquet file as a new dataset"
+                >
+                  📥 Import File
+                </button>
+                <button
+                  onClick={() => setShowProfile(!showProfile)}
+                  className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                    showProfile ? 'bg-blue-600 text-white' : 'bg-white border border-blue-300 text-blue-700 hover:bg-blue-50'
+                  }`}
+                  title="Fill rates, formats and placeholder values of each column"
+                >
+                  📊 Profile
+                </button>
+                <button
+                  onClick={() => setShowWorkspaces(!showWorkspaces)}
+                  className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                    showWorkspaces ? 'bg-blue-600 text-white' : 'bg-white border border-blue-300 text-blue-700 hover:bg-blue-50'
+                  }`}
+                  title="Save the records and rules in this browser, or share them as a file"
+                >
+                  💾 Workspaces
+                </button>
+                {currentWorkspace && (
+                  <span className="text-xs text-gray-500" title="Changes are saved automatically">
+                    Workspace: <span className="font-medium text-gray-700">{currentWorkspace.name}</span>
+                  </span>
+                )}
+                {/* The toggle stays while it is on, so skipping can always be seen and turned off */}
+                {(recordErrors.size > 0 || excludeInvalidRecords) && (
+                  <>
+                    {recordErrors.size > 0 && (
+                      <button
+                        onClick={() => setRecordFilter(
+                          recordFilter?.label === 'Invalid records' ? null : { label: 'Invalid records', recordIds: new Set(recordErrors.keys()) }
+                        )}
+                        className="text-xs text-red-700 underline hover:text-red-900"
+                        title="Show only the records failing the ruleset's validation"
+                      >
+                        ⚠️ {recordErrors.size} invalid
+                      </button>
+                    )}
+                    <label className="flex items-center gap-1 text-xs text-gray-600 cursor-pointer" title="Invalid records stay in the graph without edges">
+                      <input
+                        type="checkbox"
+                        checked={excludeInvalidRecords}
+                        onChange={e => setExcludeInvalidRecords(e.target.checked)}
+                      />
+                      Skip invalid records
+                    </label>
+                  </>
+                )}
               </div>
               
               {/* Right side: Add row buttons and Reset All */}
@@ -770,6 +1320,47 @@ export default function GraphExplorerRefactored() {
             </div>
           </div>
 
+          {showImportWizard && (
+            <DataImportWizard
+              onImport={(example) => {
+                setImportedExamples([...withWorkspaceEdits(importedExamples), example])
+                setSelectedDataExample(dataExamples.length)
+                setShowImportWizard(false)
+              }}
+              onClose={() => setShowImportWizard(false)}
+            />
+          )}
+
+          {showWorkspaces && (
+            <WorkspacePanel
+              workspaces={workspaces}
+              skipped={skippedWorkspaces}
+              openWorkspaceId={currentWorkspace?.id ?? null}
+              defaultName={`${dataExamples[selectedDataExample]?.name || 'Custom Data'} - ${activeRuleset.name}`}
+              error={workspaceError}
+              onSave={handleSaveWorkspace}
+              onOpen={handleOpenWorkspace}
+              onDelete={handleDeleteWorkspace}
+              onExport={handleExportWorkspace}
+              onImport={handleImportWorkspace}
+            />
+          )}
+
+          {dataProfile && (
+            <DataProfilePanel profile={dataProfile} activeFilter={recordFilter} onFilter={setRecordFilter} />
+          )}
+
+          {recordFilter && (
+            <div className="px-2 py-1 border-b border-gray-200 bg-blue-50 flex items-center gap-2 text-xs">
+              <span className="text-blue-800">
+                🔍 Showing {recordFilter.recordIds.size} records - <span className="font-mono">{recordFilter.label}</span>
+              </span>
+              <button onClick={() => setRecordFilter(null)} className="text-blue-700 underline hover:text-blue-900">
+                Show all
+              </button>
+            </div>
+          )}
+
           {/* Data Table */}
           
           <table className="min-w-full text-[10px] text-left">
@@ -777,175 +1368,75 @@ export default function GraphExplorerRefactored() {
               <tr>
                 <th className="px-3 py-1 border text-gray-600 text-center">Record ID</th>
                 <th className="px-3 py-1 border text-blue-700 text-center">Cluster ID</th>
-                <th className="px-3 py-1 border text-green-700 text-center">Salutation</th>
-                <th className="px-3 py-1 border text-green-700 text-center">First Name</th>
-                <th className="px-3 py-1 border text-green-700 text-center">Last Name</th>
-                <th className="px-3 py-1 border text-blue-700 text-center">Email</th>
-                <th className="px-3 py-1 border text-blue-700 text-center">Phone</th>
-                <th className="px-3 py-1 border text-purple-700 text-center">Party</th>
+                {datasetSchema.columns.map(column => (
+                  <th
+                    key={column.name}
+                    className={`px-3 py-1 border text-center ${COLUMN_TYPE_COLORS[column.type]}`}
+                    title={column.name !== column.label ? `${column.name} (${column.type})` : column.type}
+                  >
+                    {column.label}
+                  </th>
+                ))}
               </tr>
             </thead>
             <tbody>
-              {editableData.map((node, index) => (
+              {editableData.map((node, index) => (recordFilter && !recordFilter.recordIds.has(node[datasetSchema.idColumn])) ? null : (
                 <tr
-                  key={node["Record-Id"]}
+                  key={node[datasetSchema.idColumn]}
                   className={`hover:bg-gray-50 transition-all duration-200 cursor-pointer ${
-                    (hoveredEdge && (hoveredEdge.from === node["Record-Id"] || hoveredEdge.to === node["Record-Id"])) ||
-                    (selectedEdge && (selectedEdge.from === node["Record-Id"] || selectedEdge.to === node["Record-Id"])) ||
-                    (hoveredNode === node["Record-Id"])
+                    (hoveredEdge && (hoveredEdge.from === node[datasetSchema.idColumn] || hoveredEdge.to === node[datasetSchema.idColumn])) ||
+                    (selectedEdge && (selectedEdge.from === node[datasetSchema.idColumn] || selectedEdge.to === node[datasetSchema.idColumn])) ||
+                    (hoveredNode === node[datasetSchema.idColumn])
                       ? 'bg-blue-100 border-l-4 border-l-blue-500 shadow-sm'
                       : ''
                   }`}
-                  onMouseEnter={() => setHoveredNode(node["Record-Id"])}
+                  onMouseEnter={() => setHoveredNode(node[datasetSchema.idColumn])}
                   onMouseLeave={() => setHoveredNode(null)}
                 >
-                  <td className="px-3 py-1 border font-mono bg-gray-100 text-gray-600 text-center">{node["Record-Id"]}</td>
+                  <td className="px-3 py-1 border font-mono bg-gray-100 text-gray-600 text-center">{node[datasetSchema.idColumn]}</td>
                   <td className="px-3 py-1 border font-mono bg-blue-50 text-blue-700 text-center">
                     {(() => {
-                      const clusterId = nodeClusters.get(node["Record-Id"])
+                      const clusterId = nodeClusters.get(node[datasetSchema.idColumn])
                       return clusterId !== undefined ? clusterId : "—"
                     })()}
                   </td>
                   
-                  {/* Editable Salutation */}
-                  <td className="px-3 py-1 border text-center">
-                    <input
-                      type="text"
-                      value={node["Salutation"] || ""}
-                      onChange={(e) => {
-                        const newData = [...editableData]
-                        newData[index] = { ...newData[index], "Salutation": e.target.value }
-                        setEditableData(newData)
-                      }}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          // Save changes and update pipeline
-                          const newData = [...editableData]
-                          newData[index] = { ...newData[index], "Salutation": e.currentTarget.value }
-                          setEditableData(newData)
-                          setDynamicRecords(newData)
-                        }
-                      }}
-                      className="w-full text-center text-[10px] border-0 focus:outline-none focus:ring-1 focus:ring-blue-500 bg-transparent"
-                      placeholder="—"
-                    />
-                  </td>
-                  
-                  {/* Editable First Name */}
-                  <td className="px-3 py-1 border text-center">
-                    <input
-                      type="text"
-                      value={node["First Name"] || ""}
-                      onChange={(e) => {
-                        const newData = [...editableData]
-                        newData[index] = { ...newData[index], "First Name": e.target.value }
-                        setEditableData(newData)
-                      }}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          const newData = [...editableData]
-                          newData[index] = { ...newData[index], "First Name": e.currentTarget.value }
-                          setEditableData(newData)
-                          setDynamicRecords(newData)
-                        }
-                      }}
-                      className="w-full text-center text-[10px] border-0 focus:outline-none focus:ring-1 focus:ring-blue-500 bg-transparent"
-                      placeholder="—"
-                    />
-                  </td>
-                  
-                  {/* Editable Last Name */}
-                  <td className="px-3 py-1 border text-center">
-                    <input
-                      type="text"
-                      value={node["Last Name"] || ""}
-                      onChange={(e) => {
-                        const newData = [...editableData]
-                        newData[index] = { ...newData[index], "Last Name": e.target.value }
-                        setEditableData(newData)
-                      }}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          const newData = [...editableData]
-                          newData[index] = { ...newData[index], "Last Name": e.currentTarget.value }
-                          setEditableData(newData)
-                          setDynamicRecords(newData)
-                        }
-                      }}
-                      className="w-full text-center text-[10px] border-0 focus:outline-none focus:ring-1 focus:ring-blue-500 bg-transparent"
-                      placeholder="—"
-                    />
-                  </td>
-                  
-                  {/* Editable Email */}
-                  <td className="px-3 py-1 border text-center">
-                    <input
-                      type="email"
-                      value={node["Email"] || ""}
-                      onChange={(e) => {
-                        const newData = [...editableData]
-                        newData[index] = { ...newData[index], "Email": e.target.value }
-                        setEditableData(newData)
-                      }}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          const newData = [...editableData]
-                          newData[index] = { ...newData[index], "Email": e.currentTarget.value }
-                          setEditableData(newData)
-                          setDynamicRecords(newData)
-                        }
-                      }}
-                      className="w-full text-center text-[10px] border-0 focus:outline-none focus:ring-1 focus:ring-blue-500 bg-transparent"
-                      placeholder="—"
-                    />
-                  </td>
-                  
-                  {/* Editable Phone */}
-                  <td className="px-3 py-1 border text-center">
-                    <input
-                      type="tel"
-                      value={node["Phone"] || ""}
-                      onChange={(e) => {
-                        const newData = [...editableData]
-                        newData[index] = { ...newData[index], "Phone": e.target.value }
-                        setEditableData(newData)
-                      }}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          const newData = [...editableData]
-                          newData[index] = { ...newData[index], "Phone": e.currentTarget.value }
-                          setEditableData(newData)
-                          setDynamicRecords(newData)
-                        }
-                      }}
-                      className="w-full text-center text-[10px] border-0 focus:outline-none focus:ring-1 focus:ring-blue-500 bg-transparent"
-                      placeholder="—"
-                    />
-                  </td>
-                  
-                  {/* Editable Party */}
-                  <td className="px-3 py-1 border text-center">
-                    <input
-                      type="text"
-                      value={node["Party"] || ""}
-                      onChange={(e) => {
-                        const newData = [...editableData]
-                        newData[index] = { ...newData[index], "Party": e.target.value }
-                        setEditableData(newData)
-                      }}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
+                  {/* Editable cells, one per schema column */}
+                  {datasetSchema.columns.map(column => {
+                    const errors = recordErrors.get(node[datasetSchema.idColumn])?.[column.field]
+                    return (
+                    <td
+                      key={column.name}
+                      className={`px-3 py-1 border text-center ${errors ? 'bg-red-50 ring-1 ring-inset ring-red-400' : ''}`}
+                      title={errors?.join('\n')}
+                    >
+                      <input
+                        type="text"
+                        value={node[column.name] || ""}
+                        onChange={(e) => {
                           const newData = [...editableData]
-                          newData[index] = { ...newData[index], "Party": e.currentTarget.value }
+                          newData[index] = { ...newData[index], [column.name]: e.target.value }
                           setEditableData(newData)
-                          setDynamicRecords(newData)
-                        }
-                      }}
-                      className="w-full text-center text-[10px] border-0 focus:outline-none focus:ring-1 focus:ring-blue-500 bg-transparent"
-                      placeholder="—"
-                    />
-                  </td>
-                  
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            // Save changes and update pipeline
+                            const newData = [...editableData]
+                            newData[index] = { ...newData[index], [column.name]: e.currentTarget.value }
+                            setEditableData(newData)
+                            setDynamicRecords(newData)
+                          }
+                        }}
+                        className="w-full text-center text-[10px] border-0 focus:outline-none focus:ring-1 focus:ring-blue-500 bg-transparent"
+                        placeholder="—"
+                        title={errors?.join('\n') || (column.multiValued ? `Separate several ${column.label} values with ;` : undefined)}
+                      />
+                      {tableMatchedValues[node[datasetSchema.idColumn]]?.[column.field] && (
+                        <div className="text-[9px] text-green-700">✓ {tableMatchedValues[node[datasetSchema.idColumn]][column.field].join('; ')}</div>
+                      )}
+                    </td>
+                    )
+                  })}
                 </tr>
               ))}
             </tbody>
@@ -1020,36 +1511,34 @@ export default function GraphExplorerRefactored() {
                 <hr className="my-3" />
 
                 <div className="space-y-2">
-                  <div className="grid grid-cols-3 gap-2 text-sm">
-                    <span className="font-medium text-gray-600">Salutation:</span>
-                    <span className="col-span-2">{(selectedNode || hoveredNode)!.salutation || "—"}</span>
-                  </div>
-
-                  <div className="grid grid-cols-3 gap-2 text-sm">
-                    <span className="font-medium text-gray-600">First Name:</span>
-                    <span className="col-span-2">{(selectedNode || hoveredNode)!.firstName || "—"}</span>
-                  </div>
-
-                  <div className="grid grid-cols-3 gap-2 text-sm">
-                    <span className="font-medium text-gray-600">Last Name:</span>
-                    <span className="col-span-2">{(selectedNode || hoveredNode)!.lastName || "—"}</span>
-                  </div>
-
-                  <div className="grid grid-cols-3 gap-2 text-sm">
-                    <span className="font-medium text-gray-600">Email:</span>
-                    <span className="col-span-2 break-all">{(selectedNode || hoveredNode)!.email || "—"}</span>
-                  </div>
-
-                  <div className="grid grid-cols-3 gap-2 text-sm">
-                    <span className="font-medium text-gray-600">Phone:</span>
-                    <span className="col-span-2">{(selectedNode || hoveredNode)!.phone || "—"}</span>
-                  </div>
+                  {datasetSchema.columns.map(column => (
+                    <div key={column.name} className="grid grid-cols-3 gap-2 text-sm">
+                      <span className="font-medium text-gray-600">{column.label}:</span>
+                      <span className={`col-span-2 ${column.type === 'email' ? 'break-all' : ''}`}>
+                        <FieldValue node={(selectedNode || hoveredNode)!} field={column.field} />
+                      </span>
+                    </div>
+                  ))}
+                </div>
 
-                  <div className="grid grid-cols-3 gap-2 text-sm">
-                    <span className="font-medium text-gray-600">Party:</span>
-                    <span className="col-span-2">{(selectedNode || hoveredNode)!.party || "—"}</span>
+                {/* Pick a second record to inspect the pair, even when it has no edge */}
+                {selectedNode && (
+                  <div className="grid grid-cols-3 gap-2 text-sm items-center">
+                    <span className="font-medium text-gray-600">Compare with:</span>
+                    <select
+                      value={compareNodeId || ''}
+                      onChange={e => setCompareNodeId(e.target.value || null)}
+                      className="col-span-2 px-1 py-0.5 border border-gray-300 rounded text-xs"
+                    >
+                      <option value="">—</option>
+                      {finalNodeData
+                        .filter(node => node.recordId !== selectedNode.recordId)
+                        .map(node => (
+                          <option key={node.recordId} value={node.recordId}>{node.recordId} - {formatName(node)}</option>
+                        ))}
+                    </select>
                   </div>
-                </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -1099,7 +1588,23 @@ export default function GraphExplorerRefactored() {
                     </span>
                   </div>
                   
-
+                  {/* Hard constraint on this pair - overrides the score in clustering */}
+                  {(() => {
+                    const currentEdge = selectedEdge || hoveredEdge
+                    if (!currentEdge?.constraint) return null
+                    return (
+                      <div className={`p-2 rounded border text-xs ${
+                        currentEdge.constraint === 'mustLink'
+                          ? 'bg-purple-50 border-purple-200 text-purple-700'
+                          : 'bg-red-50 border-red-300 text-red-800'
+                      }`}>
+                        <span className="font-medium">
+                          {currentEdge.constraint === 'mustLink' ? '🔒 Must-link' : '⛔ Cannot-link'}
+                        </span>
+                        {' '}by {(currentEdge.constraintRules || []).join(', ')} - overrides the match score
+                      </div>
+                    )
+                  })()}
                 </div>
 
                 {/* Level-based Scoring Header - Shows weights that align with rules below */}
@@ -1107,12 +1612,12 @@ export default function GraphExplorerRefactored() {
                   const currentEdge = selectedEdge || hoveredEdge
                   if (!currentEdge || !currentEdge.results || currentEdge.results.length === 0) return null
                   
-                  // Get unique rule levels from the results
-                  const ruleLevels = new Set<number>()
+                  // Get unique rule levels and the weight applied at each from the results
+                  const ruleLevels = new Map<number, number>()
                   currentEdge.results.forEach((result: any) => {
                     if (result.individualRuleScores) {
                       result.individualRuleScores.forEach((irs: any) => {
-                        ruleLevels.add(irs.level)
+                        ruleLevels.set(irs.level, irs.levelWeight)
                       })
                     }
                   })
@@ -1123,11 +1628,7 @@ export default function GraphExplorerRefactored() {
                     <div className="mb-2 p-2 bg-gray-50 rounded border border-gray-200">
                       <div className="text-xs font-medium text-gray-700 mb-1">⚖️ Rule Level Weights:</div>
                       <div className="flex items-center space-x-3 text-xs">
-                        {Array.from(ruleLevels).sort().map(level => {
-                          const multiplier = level === 1 ? 1.0 : 
-                                           level === 2 ? 0.75 : 
-                                           level === 3 ? 0.5 : 
-                                           level === 4 ? 0.25 : 0.1
+                        {Array.from(ruleLevels.entries()).sort(([a], [b]) => a - b).map(([level, multiplier]) => {
                           return (
                             <div key={level} className="flex items-center space-x-1">
                               <span className="text-gray-500">L{level}:</span>
@@ -1191,7 +1692,7 @@ export default function GraphExplorerRefactored() {
                   if (!currentEdge || !currentEdge.results || currentEdge.results.length === 0) return null
                   
                   // Group results by leaf rules (the ones that actually get evaluated) - each rule should only appear once
-                  const ruleScores = new Map<string, { positive: number; negative: number; total: number; multiplier: number; baseScore: number }>()
+                  const ruleScores = new Map<string, { positive: number; negative: number; total: number; multiplier: number; baseScore: number; levelWeight: number; ruleWeight: number; fieldSimilarities: FieldSimilarity[] }>()
                   
                   currentEdge.results.forEach((result: any) => {
                     // Get the leaf rule (last rule in the path) - this is the one that actually gets evaluated
@@ -1199,7 +1700,7 @@ export default function GraphExplorerRefactored() {
                     const leafRule = rulePath[rulePath.length - 1] || 'Unknown'
                     
                     if (!ruleScores.has(leafRule)) {
-                      ruleScores.set(leafRule, { positive: 0, negative: 0, total: 0, multiplier: 1, baseScore: 0 })
+                      ruleScores.set(leafRule, { positive: 0, negative: 0, total: 0, multiplier: 1, baseScore: 0, levelWeight: 1, ruleWeight: 1, fieldSimilarities: [] })
                     }
                     
                     const ruleScore = ruleScores.get(leafRule)!
@@ -1219,6 +1720,9 @@ export default function GraphExplorerRefactored() {
                         if (leafRuleScore) {
                           ruleScore.multiplier = leafRuleScore.multiplier
                           ruleScore.baseScore = leafRuleScore.baseScore
+                          ruleScore.levelWeight = leafRuleScore.levelWeight
+                          ruleScore.ruleWeight = leafRuleScore.ruleWeight
+                          ruleScore.fieldSimilarities = leafRuleScore.fieldSimilarities || []
                         }
                       }
                       
@@ -1235,11 +1739,29 @@ export default function GraphExplorerRefactored() {
                           <div key={ruleName} className="flex items-center justify-between p-2 bg-white rounded border border-blue-100">
                             <div className="flex-1">
                               <span className="font-medium text-blue-700">{ruleName}</span>
+                              {/* Per-field similarity - partial credit behind the base score */}
+                              {scores.fieldSimilarities.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {scores.fieldSimilarities.map(fs => (
+                                    <span
+                                      key={fs.field}
+                                      className={`px-1 rounded text-[10px] ${
+                                        fs.outcome === 'match' ? 'bg-green-50 text-green-700' :
+                                        fs.outcome === 'conflict' ? 'bg-red-50 text-red-700' :
+                                        'bg-gray-50 text-gray-500'
+                                      }`}
+                                      title={`${fs.comparator} comparator`}
+                                    >
+                                      {fs.field} {fs.outcome === 'missing' ? '—' : fs.similarity.toFixed(2)}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
                             </div>
                             <div className="flex items-center space-x-3">
-                              {/* Show multiplier × base score for each rule */}
-                              <span className="text-xs text-gray-500">
-                                {scores.multiplier} × {scores.baseScore.toFixed(2)}
+                              {/* Show level weight (× rule weight) × base score for each rule */}
+                              <span className="text-xs text-gray-500" title="level weight × rule weight × base score">
+                                {scores.levelWeight}{scores.ruleWeight !== 1 ? ` × ${scores.ruleWeight}` : ''} × {scores.baseScore.toFixed(2)}
                               </span>
                               {/* Show the final score for each rule */}
                               <span className={`px-2 py-1 rounded text-xs font-medium ${
@@ -1271,6 +1793,42 @@ export default function GraphExplorerRefactored() {
                   )
                 })()}
 
+                {/* Field Values - raw and normalized values of every field the rules compared */}
+                {(() => {
+                  const currentEdge = selectedEdge || hoveredEdge
+                  if (!currentEdge || !currentEdge.results || currentEdge.results.length === 0) return null
+                  const node1 = getNodeByRecordId(currentEdge.from)
+                  const node2 = getNodeByRecordId(currentEdge.to)
+                  if (!node1 || !node2) return null
+
+                  const comparedFields = Array.from(new Set<string>(
+                    currentEdge.results.flatMap((result: any) => [
+                      ...(result.matchingFields || []),
+                      ...(result.nonMatchingFields || []),
+                      ...(result.missingFields || [])
+                    ])
+                  ))
+                  const matchedValues = collectMatchedValues(currentEdge.results)
+
+                  return (
+                    <div className="mt-2 p-2 bg-gray-50 rounded border border-gray-200 text-xs">
+                      <div className="font-medium text-gray-700 mb-1">🔎 Field Values:</div>
+                      <div className="grid grid-cols-3 gap-x-2 gap-y-1">
+                        <span className="text-gray-400">Field</span>
+                        <span className="text-gray-400">{currentEdge.from}</span>
+                        <span className="text-gray-400">{currentEdge.to}</span>
+                        {comparedFields.map(field => (
+                          <React.Fragment key={field}>
+                            <span className="font-medium text-gray-600">{field}</span>
+                            <span className="break-all"><FieldValue node={node1} field={field} matched={matchedValues[field]?.[0]} /></span>
+                            <span className="break-all"><FieldValue node={node2} field={field} matched={matchedValues[field]?.[1]} /></span>
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    </div>
+                  )
+                })()}
+
                 <hr className="my-3" />
 
                 {/* Removed redundant panels - user can see this information elsewhere */}
@@ -1280,6 +1838,35 @@ export default function GraphExplorerRefactored() {
             </Card>
           )}
 
+          {/* Pair Inspector - every rule path evaluated for the pinned pair */}
+          {pairInspection && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">🔬 Pair Inspector</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PairInspectorPanel
+                  evaluation={pairInspection.evaluation}
+                  constraint={pairInspection.constraint}
+                  hasEdge={pairInspection.hasEdge}
+                  isCandidate={pairInspection.isCandidate}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Counterfactuals - what would it take for the pinned pair to match / not match */}
+          {counterfactualAnalysis && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">🔍 What Would It Take?</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CounterfactualPanel analysis={counterfactualAnalysis} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Instructions Panel */}
           {!(selectedNode || selectedEdge || hoveredNode || hoveredEdge) && (
             <Card>
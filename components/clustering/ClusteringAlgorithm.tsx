@@ -1,6 +1,7 @@
 // Clustering Algorithm - Pure clustering logic, no visualization
-import { NodeData, Edge, ClusteringResult, ClusteringQualityMetrics, ConstraintViolation } from '@/types/common'
+import { NodeData, Edge, EdgeIndex, ClusteringResult, ClusteringQualityMetrics, ConstraintViolation, ConstraintOverride } from '@/types/common'
 import { ClusteringConfig, ClusterNode, ClusterGroup, ClusteringPhase, ClusteringPhaseResult } from '@/types/clustering'
+import { createEdgeIndex, findEdge, findEdges, getNodeEdges } from '@/utils/edge-index-utils'
 
 // Default clustering configuration
 export const defaultClusteringConfig: ClusteringConfig = {
@@ -15,6 +16,7 @@ export const defaultClusteringConfig: ClusteringConfig = {
 // 1. Negative edges are ALWAYS respected - nodes with negative edges never in same cluster
 // 2. When a node matches multiple clusters, prefer the cluster with highest edge score
 // 3. Allow nodes to re-evaluate cluster assignments when better options become available
+// 4. Hard constraints win over scores - cannot-link pairs are never joined, must-link pairs always are
 export function performAdvancedClustering(
   nodeData: NodeData[], 
   edges: Edge[], 
@@ -25,12 +27,17 @@ export function performAdvancedClustering(
       assignments: new Map<string, number>(),
       clusterGroups: new Map<number, Set<string>>(),
       qualityMetrics: createEmptyQualityMetrics(),
-      constraintViolations: []
+      constraintViolations: [],
+      constraintOverrides: []
     }
   }
   
   console.log(`🚀 STARTING IMPROVED CLUSTERING for ${nodeData.length} nodes`)
   
+  // Every pass looks edges up by pair or by node - index them once
+  const index = createEdgeIndex(edges)
+  const isNegative = (edge: Edge) => edge.constraint === 'cannotLink' || edge.matchScore < config.negativeThreshold
+  
   const assignments = new Map<string, number>()
   const clusterGroups = new Map<number, Set<string>>()
   let nextClusterId = 1
@@ -47,33 +54,29 @@ export function performAdvancedClustering(
     let bestEdgeScore = -Infinity
     let bestClusterLowestNodeId = "" // Track the lowest alphanumeric node ID for tie-breaking
     
-    // Check all existing clusters to find the best match
-    for (const [clusterId, clusterNodes] of clusterGroups) {
-      let maxEdgeScore = -Infinity
-      let hasNegativeEdge = false
+    // Score the clusters of this node's neighbours - a cluster without a positive edge to it is never joined
+    const candidateClusters = new Map<number, { maxEdgeScore: number; hasNegativeEdge: boolean }>()
+    for (const neighbourEdge of getNodeEdges(index, nodeId)) {
+      const clusterNodeId = neighbourEdge.from === nodeId ? neighbourEdge.to : neighbourEdge.from
+      const clusterId = assignments.get(clusterNodeId)
+      if (clusterId === undefined) continue
       
-      // Check edges to all nodes in this cluster
-      for (const clusterNodeId of clusterNodes) {
-        const edge = edges.find(e => 
-          ((e.from === nodeId && e.to === clusterNodeId) || 
-           (e.from === clusterNodeId && e.to === nodeId))
-        )
-        
-        if (edge) {
-          if (edge.matchScore < config.negativeThreshold) {
-            // STRICT CONSTRAINT: Negative edge means this cluster is invalid
-            hasNegativeEdge = true
-            break
-          } else if (edge.matchScore > config.positiveThreshold) {
-            maxEdgeScore = Math.max(maxEdgeScore, edge.matchScore)
-          }
-        }
+      const candidate = candidateClusters.get(clusterId) || { maxEdgeScore: -Infinity, hasNegativeEdge: false }
+      candidateClusters.set(clusterId, candidate)
+      const edge = findEdge(index, nodeId, clusterNodeId)!
+      if (isNegative(edge)) {
+        // STRICT CONSTRAINT: Negative edge means this cluster is invalid
+        candidate.hasNegativeEdge = true
+      } else if (edge.matchScore > config.positiveThreshold) {
+        candidate.maxEdgeScore = Math.max(candidate.maxEdgeScore, edge.matchScore)
       }
-      
+    }
+    
+    for (const [clusterId, { maxEdgeScore, hasNegativeEdge }] of candidateClusters) {
       // If no negative edges and this cluster has a better or equal score, consider it
       if (!hasNegativeEdge && maxEdgeScore >= bestEdgeScore) {
         // Find the lowest alphanumeric node ID in this cluster for tie-breaking
-        const lowestNodeId = Array.from(clusterNodes).sort()[0]
+        const lowestNodeId = findLowestNodeId(clusterGroups.get(clusterId)!)
         
         // If this cluster has a better score, or same score with lower alphanumeric node ID
         if (maxEdgeScore > bestEdgeScore || 
@@ -89,12 +92,10 @@ export function performAdvancedClustering(
     if (bestClusterId !== -1) {
       assignments.set(nodeId, bestClusterId)
       clusterGroups.get(bestClusterId)!.add(nodeId)
-      console.log(`🔗 Node ${nodeId} joined cluster ${bestClusterId} with edge score ${bestEdgeScore.toFixed(3)}`)
     } else {
       // No good cluster found, create a new one
       assignments.set(nodeId, nextClusterId)
       clusterGroups.set(nextClusterId, new Set([nodeId]))
-      console.log(`🔗 Node ${nodeId} created new cluster ${nextClusterId}`)
       nextClusterId++
     }
   }
@@ -115,43 +116,39 @@ export function performAdvancedClustering(
       let bestClusterId = currentClusterId
       let bestEdgeScore = -Infinity
       let bestClusterLowestNodeId = "" // Track the lowest alphanumeric node ID for tie-breaking
+      const nodeEdges = getNodeEdges(index, nodeId)
+      
+      // Members of each cluster this node has a negative edge to
+      const negativeMembers = new Map<number, string[]>()
+      for (const edge of nodeEdges) {
+        const otherNodeId = edge.from === nodeId ? edge.to : edge.from
+        const otherClusterId = assignments.get(otherNodeId)
+        if (otherClusterId === undefined || !isNegative(findEdge(index, nodeId, otherNodeId)!)) continue
+        if (!negativeMembers.has(otherClusterId)) negativeMembers.set(otherClusterId, [])
+        negativeMembers.get(otherClusterId)!.push(otherNodeId)
+      }
       
       // Find the strongest edge for this node
-      for (const edge of edges) {
-        if (edge.from === nodeId || edge.to === nodeId) {
-          const otherNodeId = edge.from === nodeId ? edge.to : edge.from
-          const otherClusterId = assignments.get(otherNodeId)
+      for (const edge of nodeEdges) {
+        const otherNodeId = edge.from === nodeId ? edge.to : edge.from
+        const otherClusterId = assignments.get(otherNodeId)
+        
+        if (otherClusterId !== undefined && edge.constraint !== 'cannotLink' && edge.matchScore > config.positiveThreshold) {
+          // Check if this cluster is valid (no negative edges to its other members)
+          const targetCluster = clusterGroups.get(otherClusterId)!
+          const hasNegativeEdge = (negativeMembers.get(otherClusterId) || []).some(memberId => memberId !== otherNodeId)
           
-          if (otherClusterId !== undefined && edge.matchScore > config.positiveThreshold) {
-            // Check if this cluster is valid (no negative edges)
-            let hasNegativeEdge = false
-            const targetCluster = clusterGroups.get(otherClusterId)!
-            
-            for (const clusterNodeId of targetCluster) {
-              if (clusterNodeId !== otherNodeId) {
-                const clusterEdge = edges.find(e => 
-                  ((e.from === nodeId && e.to === clusterNodeId) || 
-                   (e.from === clusterNodeId && e.to === nodeId))
-                )
-                if (clusterEdge && clusterEdge.matchScore < config.negativeThreshold) {
-                  hasNegativeEdge = true
-                  break
-                }
-              }
-            }
+          // If no negative edges and this edge is stronger or equal, consider this cluster
+          if (!hasNegativeEdge && edge.matchScore >= bestEdgeScore) {
+            // Find the lowest alphanumeric node ID in this cluster for tie-breaking
+            const lowestNodeId = findLowestNodeId(targetCluster)
             
-            // If no negative edges and this edge is stronger or equal, consider this cluster
-            if (!hasNegativeEdge && edge.matchScore >= bestEdgeScore) {
-              // Find the lowest alphanumeric node ID in this cluster for tie-breaking
-              const lowestNodeId = Array.from(targetCluster).sort()[0]
-              
-              // If this cluster has a better score, or same score with lower alphanumeric node ID
-              if (edge.matchScore > bestEdgeScore || 
-                  (edge.matchScore === bestEdgeScore && lowestNodeId < bestClusterLowestNodeId)) {
-                bestEdgeScore = edge.matchScore
-                bestClusterId = otherClusterId
-                bestClusterLowestNodeId = lowestNodeId
-              }
+            // If this cluster has a better score, or same score with lower alphanumeric node ID
+            if (edge.matchScore > bestEdgeScore || 
+                (edge.matchScore === bestEdgeScore && lowestNodeId < bestClusterLowestNodeId)) {
+              bestEdgeScore = edge.matchScore
+              bestClusterId = otherClusterId
+              bestClusterLowestNodeId = lowestNodeId
             }
           }
         }
@@ -168,7 +165,6 @@ export function performAdvancedClustering(
         betterCluster.add(nodeId)
         assignments.set(nodeId, bestClusterId)
         
-        console.log(`🔄 Node ${nodeId} moved from cluster ${currentClusterId} to cluster ${bestClusterId} (edge score: ${bestEdgeScore.toFixed(3)})`)
         optimizationMade = true
         
         // Clean up empty clusters
@@ -179,11 +175,11 @@ export function performAdvancedClustering(
     }
   }
   
-  // Log final cluster assignments
+  // CONSTRAINT PASS: Merge must-link pairs and record every decision made against the score
+  const constraintOverrides = applyLinkConstraints(assignments, clusterGroups, index, config)
+  
+  // Log the cluster count - not every assignment, which would cost more than clustering on large datasets
   console.log(`🔗 CLUSTERING COMPLETE - Final result: ${clusterGroups.size} clusters`)
-  for (const [clusterId, nodes] of clusterGroups) {
-    console.log(`   Cluster ${clusterId}: ${Array.from(nodes).join(', ')}`)
-  }
   
   // Calculate final quality metrics
   const finalPhase: ClusteringPhase = {
@@ -192,33 +188,196 @@ export function performAdvancedClustering(
     assignments,
     clusterGroups
   }
-  const qualityMetrics = calculateClusteringQuality(finalPhase, edges, nodeData)
+  const qualityMetrics = calculateClusteringQuality(finalPhase, index, nodeData)
   
   // Detect constraint violations
-  const constraintViolations = detectConstraintViolations(assignments, edges)
+  const constraintViolations = detectConstraintViolations(assignments, index)
   
   return {
     assignments,
     clusterGroups,
     qualityMetrics,
-    constraintViolations
+    constraintViolations,
+    constraintOverrides
   }
 }
 
 
 
+// Update clusters after a few records changed, re-clustering only the previous clusters of the
+// affected nodes (and new nodes); every other cluster keeps its nodes and ID. Re-clustered groups
+// take over the previous ID most of their nodes had, so cluster colors stay put where they can.
+export function clusterIncrementally(
+  nodeData: NodeData[],
+  edges: Edge[],
+  previous: ClusteringResult,
+  affectedNodeIds: Set<string>,
+  config: ClusteringConfig = defaultClusteringConfig
+): ClusteringResult {
+  if (previous.assignments.size === 0) {
+    return performAdvancedClustering(nodeData, edges, config)
+  }
+  
+  // The region to re-cluster: every node that shared a previous cluster with an affected node
+  const regionClusterIds = new Set<number>()
+  for (const nodeId of affectedNodeIds) {
+    const clusterId = previous.assignments.get(nodeId)
+    if (clusterId !== undefined) regionClusterIds.add(clusterId)
+  }
+  const nodeIds = new Set(nodeData.map(node => node.recordId))
+  const region = new Set(Array.from(affectedNodeIds).filter(nodeId => nodeIds.has(nodeId)))
+  for (const [nodeId, clusterId] of previous.assignments) {
+    if (regionClusterIds.has(clusterId) && nodeIds.has(nodeId)) region.add(nodeId)
+  }
+  
+  const local = performAdvancedClustering(
+    nodeData.filter(node => region.has(node.recordId)),
+    edges.filter(edge => region.has(edge.from) && region.has(edge.to)),
+    config
+  )
+  
+  // Keep the clusters outside the region as they were
+  const assignments = new Map<string, number>()
+  const clusterGroups = new Map<number, Set<string>>()
+  for (const [nodeId, clusterId] of previous.assignments) {
+    if (region.has(nodeId) || !nodeIds.has(nodeId)) continue
+    assignments.set(nodeId, clusterId)
+    if (!clusterGroups.has(clusterId)) clusterGroups.set(clusterId, new Set())
+    clusterGroups.get(clusterId)!.add(nodeId)
+  }
+  
+  let nextClusterId = Array.from(previous.clusterGroups.keys()).reduce((max, id) => Math.max(max, id), 0) + 1
+  for (const [, members] of local.clusterGroups) {
+    const previousIds = new Map<number, number>()
+    for (const nodeId of members) {
+      const clusterId = previous.assignments.get(nodeId)
+      if (clusterId !== undefined && !clusterGroups.has(clusterId)) {
+        previousIds.set(clusterId, (previousIds.get(clusterId) || 0) + 1)
+      }
+    }
+    const reused = Array.from(previousIds.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0]
+    const clusterId = reused ? reused[0] : nextClusterId++
+    
+    clusterGroups.set(clusterId, new Set(members))
+    for (const nodeId of members) assignments.set(nodeId, clusterId)
+  }
+  
+  const finalPhase: ClusteringPhase = {
+    name: "Incremental Clustering",
+    description: "Previous clusters with the clusters of changed nodes re-clustered",
+    assignments,
+    clusterGroups
+  }
+  
+  const index = createEdgeIndex(edges)
+  return {
+    assignments,
+    clusterGroups,
+    qualityMetrics: calculateClusteringQuality(finalPhase, index, nodeData),
+    constraintViolations: detectConstraintViolations(assignments, index),
+    constraintOverrides: [
+      ...previous.constraintOverrides.filter(override => !region.has(override.node1) && !region.has(override.node2)),
+      ...local.constraintOverrides
+    ]
+  }
+}
 
 
+
+// Apply hard constraints to the score-based clusters. Cannot-link pairs were already kept
+// apart by the passes above; here the clusters of every must-link pair are merged unless
+// that would put a cannot-link pair together. Returns each override for the results.
+function applyLinkConstraints(
+  assignments: Map<string, number>,
+  clusterGroups: Map<number, Set<string>>,
+  index: EdgeIndex,
+  config: ClusteringConfig
+): ConstraintOverride[] {
+  const overrides: ConstraintOverride[] = []
+  const cannotLinkEdges = index.edges.filter(e => e.constraint === 'cannotLink')
+  const isCannotLinked = (a: string, b: string) => findEdges(index, a, b).some(e => e.constraint === 'cannotLink')
+  
+  // Cannot-link pairs whose score alone would have allowed them to join
+  for (const edge of cannotLinkEdges) {
+    if (edge.matchScore > config.positiveThreshold) {
+      overrides.push({
+        node1: edge.from,
+        node2: edge.to,
+        constraint: 'cannotLink',
+        rules: edge.constraintRules || [],
+        matchScore: edge.matchScore,
+        effect: 'separated',
+        message: `Kept apart despite positive score ${edge.matchScore.toFixed(3)}`
+      })
+    }
+  }
+  
+  for (const edge of index.edges) {
+    if (edge.constraint !== 'mustLink') continue
+    
+    const cluster1 = assignments.get(edge.from)
+    const cluster2 = assignments.get(edge.to)
+    if (cluster1 === undefined || cluster2 === undefined || cluster1 === cluster2) continue
+    
+    // Keep the lower cluster ID so merges are deterministic
+    const [keepId, mergeId] = cluster1 < cluster2 ? [cluster1, cluster2] : [cluster2, cluster1]
+    const keepCluster = clusterGroups.get(keepId)!
+    const mergeCluster = clusterGroups.get(mergeId)!
+    
+    let blockingPair: [string, string] | null = null
+    for (const a of keepCluster) {
+      for (const b of mergeCluster) {
+        if (isCannotLinked(a, b)) {
+          blockingPair = [a, b]
+          break
+        }
+      }
+      if (blockingPair) break
+    }
+    
+    const override = {
+      node1: edge.from,
+      node2: edge.to,
+      constraint: 'mustLink' as const,
+      rules: edge.constraintRules || [],
+      matchScore: edge.matchScore
+    }
+    
+    if (blockingPair) {
+      overrides.push({
+        ...override,
+        effect: 'blocked',
+        message: `Not merged: ${blockingPair[0]} and ${blockingPair[1]} are cannot-link`
+      })
+      continue
+    }
+    
+    for (const nodeId of mergeCluster) {
+      keepCluster.add(nodeId)
+      assignments.set(nodeId, keepId)
+    }
+    clusterGroups.delete(mergeId)
+    overrides.push({
+      ...override,
+      effect: 'merged',
+      message: `Merged cluster ${mergeId} into ${keepId} (score ${edge.matchScore.toFixed(3)})`
+    })
+  }
+  
+  return overrides
+}
+
 // Calculate clustering quality metrics
 function calculateClusteringQuality(
   clusteringResult: ClusteringPhase, 
-  edges: Edge[], 
+  index: EdgeIndex, 
   nodeData: NodeData[]
 ): ClusteringQualityMetrics {
   if (!clusteringResult.assignments || nodeData.length === 0) {
     return createEmptyQualityMetrics()
   }
   
+  const edges = index.edges
   const totalNodes = nodeData.length
   const totalEdges = edges.length
   const positiveEdges = edges.filter(e => e.type === 'positive')
@@ -269,14 +428,14 @@ function calculateClusteringQuality(
 // Detect clustering constraint violations
 function detectConstraintViolations(
   assignments: Map<string, number>, 
-  edges: Edge[]
+  index: EdgeIndex
 ): ConstraintViolation[] {
   const violations: ConstraintViolation[] = []
   
   if (!assignments) return violations
   
   // Check all negative edges to see if they connect nodes in the same cluster
-  for (const edge of edges) {
+  for (const edge of index.edges) {
     if (edge.type === 'negative') {
       const cluster1 = assignments.get(edge.from)
       const cluster2 = assignments.get(edge.to)
@@ -296,6 +455,15 @@ function detectConstraintViolations(
   return violations
 }
 
+// Lowest alphanumeric node ID of a cluster - the tie-breaker between equally scored clusters
+function findLowestNodeId(clusterNodes: Set<string>): string {
+  let lowest: string | undefined
+  for (const nodeId of clusterNodes) {
+    if (lowest === undefined || nodeId < lowest) lowest = nodeId
+  }
+  return lowest as string
+}
+
 // Create empty quality metrics
 function createEmptyQualityMetrics(): ClusteringQualityMetrics {
   return {
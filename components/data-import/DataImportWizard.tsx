@@ -0,0 +1,267 @@
+// Data Import Wizard - Drop a CSV/TSV, JSON Lines, Excel or Parquet file, check how it was read and the preview,
+// then map its columns
+import React, { useEffect, useMemo, useState } from 'react'
+import { Progress } from '@/components/ui/progress'
+import { DataExample } from '@/types/common'
+import { ColumnMapping, ImportDelimiter, ImportEncoding } from '@/types/import'
+import { useFileImport } from '@/hooks/useFileImport'
+import {
+  createImportedExample,
+  IMPORT_DELIMITERS,
+  IMPORT_ENCODINGS,
+  IMPORT_FORMATS,
+  IMPORT_ID_TARGET,
+  PREVIEW_ROWS,
+  suggestColumnMapping,
+  validateColumnMapping
+} from '@/utils/import-utils'
+import { downloadTextFile, toCsv } from '@/utils/download-utils'
+import { KNOWN_COLUMNS, toFieldName } from '@/utils/schema-utils'
+
+interface DataImportWizardProps {
+  onImport: (example: DataExample) => void
+  onClose: () => void
+}
+
+const ACCEPTED_FILES = IMPORT_FORMATS.flatMap(({ extensions }) => extensions).join(",")
+
+const delimiterLabel = (delimiter: string) =>
+  IMPORT_DELIMITERS.find(option => option.value === delimiter)?.label || JSON.stringify(delimiter)
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1048576).toFixed(1)} MB`
+
+export function DataImportWizard({ onImport, onClose }: DataImportWizardProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [delimiter, setDelimiter] = useState<ImportDelimiter>("auto")
+  const [encoding, setEncoding] = useState<ImportEncoding | "auto">("auto")
+  const [mappings, setMappings] = useState<ColumnMapping[]>([])
+  const [datasetName, setDatasetName] = useState("")
+  const [dragging, setDragging] = useState(false)
+
+  const { table, progress, error } = useFileImport(file, encoding === "auto" ? undefined : encoding, delimiter)
+
+  // New headers get a fresh suggestion; a re-read with the same headers keeps the user's choices
+  useEffect(() => {
+    if (!table) return
+    setMappings(previous =>
+      previous.length === table.headers.length && previous.every((mapping, i) => mapping.source === table.headers[i])
+        ? previous
+        : suggestColumnMapping(table.headers)
+    )
+  }, [table])
+
+  const issues = useMemo(() => validateColumnMapping(mappings), [mappings])
+  const hasIdColumn = mappings.some(mapping => mapping.target === IMPORT_ID_TARGET)
+
+  const selectFile = (selected: File | undefined) => {
+    if (!selected) return
+    setFile(selected)
+    setDatasetName(selected.name.replace(/\.[^.]+$/, ""))
+  }
+
+  const updateMapping = (index: number, target: string) => {
+    setMappings(mappings.map((mapping, i) => (i === index ? { ...mapping, target } : mapping)))
+  }
+
+  const handleImport = () => {
+    if (!table || issues.length > 0) return
+    onImport(createImportedExample(table, mappings, datasetName.trim() || table.fileName))
+  }
+
+  const downloadRejects = () => {
+    if (!table) return
+    const rows = table.rejects.map(reject => [reject.row, reject.reason, reject.raw])
+    downloadTextFile(`${table.fileName.replace(/\.[^.]+$/, "")}-rejects.csv`, toCsv([["Row", "Reason", "Raw"], ...rows]), "text/csv")
+  }
+
+  return (
+    <div className="p-2 border-b border-gray-200 bg-blue-50 space-y-2 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700">📥 Import File</span>
+        <button onClick={onClose} className="px-2 py-0.5 text-gray-500 hover:text-gray-700" title="Close without importing">
+          ✕
+        </button>
+      </div>
+
+      {/* Step 1: choose a file */}
+      <label
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setDragging(false)
+          selectFile(e.dataTransfer.files[0])
+        }}
+        className={`block p-3 border-2 border-dashed rounded text-center cursor-pointer transition-colors ${
+          dragging ? 'border-blue-500 bg-blue-100' : 'border-gray-300 bg-white hover:border-blue-400'
+        }`}
+      >
+        <input
+          type="file"
+          accept={ACCEPTED_FILES}
+          className="hidden"
+          onChange={(e) => {
+            selectFile(e.target.files?.[0])
+            e.target.value = "" // Picking the same file again re-reads it
+          }}
+        />
+        {file ? (
+          <span>
+            <span className="font-medium">{file.name}</span>
+            {table && <span className="text-gray-500"> - {table.rows.length} rows, {table.headers.length} columns</span>}
+          </span>
+        ) : (
+          <span className="text-gray-500">
+            Drop a file here, or click to choose one ({IMPORT_FORMATS.map(({ label }) => label).join(", ")})
+          </span>
+        )}
+      </label>
+
+      {progress && (
+        <div className="space-y-1">
+          <div className="text-gray-600">
+            Reading… {progress.rowsRead.toLocaleString()} rows
+            {progress.totalBytes > 0 && `, ${formatMegabytes(progress.bytesRead)} of ${formatMegabytes(progress.totalBytes)}`}
+          </div>
+          <Progress className="h-1.5" value={(progress.bytesRead / Math.max(progress.totalBytes, 1)) * 100} />
+        </div>
+      )}
+
+      {error && <div className="p-1.5 bg-red-50 rounded border border-red-200 text-red-700">{error}</div>}
+
+      {table && !progress && (
+        <>
+          {/* Step 2: check how the file was read */}
+          <div className="flex items-center gap-3">
+            {table.delimiter !== null && (
+              <label className="flex items-center gap-1">
+                <span className="text-gray-600">Delimiter</span>
+                <select
+                  value={delimiter}
+                  onChange={(e) => setDelimiter(e.target.value as ImportDelimiter)}
+                  className="px-1 py-0.5 border border-gray-300 rounded"
+                >
+                  {IMPORT_DELIMITERS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.value === "auto" ? `Detect (${delimiterLabel(table.delimiter ?? "")})` : option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {table.encoding !== null && (
+              <label className="flex items-center gap-1">
+                <span className="text-gray-600">Encoding</span>
+                <select
+                  value={encoding}
+                  onChange={(e) => setEncoding(e.target.value as ImportEncoding | "auto")}
+                  className="px-1 py-0.5 border border-gray-300 rounded"
+                >
+                  <option value="auto">Detect ({table.encoding})</option>
+                  {IMPORT_ENCODINGS.map(value => (
+                    <option key={value} value={value}>{value}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {table.rejects.length > 0 && (
+            <details className="p-1.5 bg-yellow-50 rounded border border-yellow-200 text-yellow-800">
+              <summary className="cursor-pointer">⚠️ {table.rejects.length} rows could not be read and are left out</summary>
+              <button onClick={downloadRejects} className="mt-1 underline hover:text-yellow-900">Download rejects (CSV)</button>
+              <ul className="mt-1 max-h-24 overflow-y-auto">
+                {table.rejects.slice(0, 100).map((reject, index) => <li key={index}>Row {reject.row}: {reject.reason}</li>)}
+              </ul>
+            </details>
+          )}
+
+          {/* Step 3: map each column, with the first rows as a preview */}
+          <div className="overflow-x-auto bg-white rounded border border-gray-200">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gray-50">
+                  {table.headers.map((header, index) => (
+                    <th key={index} className="px-1.5 py-1 text-left font-medium text-gray-700 whitespace-nowrap">{header}</th>
+                  ))}
+                </tr>
+                <tr className="bg-gray-50 border-b border-gray-200">
+                  {mappings.map((mapping, index) => {
+                    const newField = toFieldName(mapping.source)
+                    return (
+                      <th key={index} className="px-1 pb-1 text-left font-normal">
+                        <select
+                          value={mapping.target}
+                          onChange={(e) => updateMapping(index, e.target.value)}
+                          className={`w-full px-1 py-0.5 border rounded ${mapping.target ? 'border-gray-300' : 'border-gray-200 text-gray-400'}`}
+                        >
+                          <option value={IMPORT_ID_TARGET}>🔑 Record ID</option>
+                          {KNOWN_COLUMNS.map(column => (
+                            <option key={column.field} value={column.field}>{column.label}</option>
+                          ))}
+                          {!KNOWN_COLUMNS.some(column => column.field === mapping.target) && mapping.target && mapping.target !== IMPORT_ID_TARGET && (
+                            <option value={mapping.target}>New column ({mapping.target})</option>
+                          )}
+                          {newField !== mapping.target && !KNOWN_COLUMNS.some(column => column.field === newField) && (
+                            <option value={newField}>New column ({newField})</option>
+                          )}
+                          <option value="">Skip</option>
+                        </select>
+                      </th>
+                    )
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t border-gray-100">
+                    {row.map((cell, index) => (
+                      <td
+                        key={index}
+                        className={`px-1.5 py-0.5 whitespace-nowrap max-w-[10rem] truncate ${mappings[index]?.target ? '' : 'text-gray-300'}`}
+                        title={cell}
+                      >
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {table.rows.length > PREVIEW_ROWS && (
+            <div className="text-gray-500">Showing {PREVIEW_ROWS} of {table.rows.length} rows</div>
+          )}
+
+          {issues.map(issue => (
+            <div key={issue} className="p-1.5 bg-red-50 rounded border border-red-200 text-red-700">{issue}</div>
+          ))}
+          {!hasIdColumn && (
+            <div className="text-gray-500">No record ID column - records get IDs row-1, row-2, ...</div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1 flex-1">
+              <span className="text-gray-600">Dataset name</span>
+              <input
+                value={datasetName}
+                onChange={(e) => setDatasetName(e.target.value)}
+                className="flex-1 px-1.5 py-0.5 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </label>
+            <button
+              onClick={handleImport}
+              disabled={issues.length > 0 || table.rows.length === 0}
+              className="px-2 py-0.5 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white rounded transition-colors"
+            >
+              Import {table.rows.length} records
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+// Data Profile Panel - Fill rate, distinct values, top values, formats and placeholders per column; picking one
+// narrows the data table to the records holding it
+import React from 'react'
+import { DatasetProfile, FieldProfile, RecordFilter, ValueCount } from '@/types/profiling'
+
+interface DataProfilePanelProps {
+  profile: DatasetProfile
+  activeFilter: RecordFilter | null
+  onFilter: (filter: RecordFilter | null) => void
+}
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`
+
+// Fill rate bar colour - green when nearly complete, red when mostly empty
+const fillColor = (ratio: number) => (ratio >= 0.9 ? 'bg-green-500' : ratio >= 0.5 ? 'bg-yellow-500' : 'bg-red-500')
+
+function ValueList({ title, items, field, kind, highlight, activeFilter, onFilter }: {
+  title: string
+  items: ValueCount[]
+  field: FieldProfile
+  kind: 'value' | 'format'
+  highlight?: string
+  activeFilter: RecordFilter | null
+  onFilter: (filter: RecordFilter | null) => void
+}) {
+  if (items.length === 0) return null
+  return (
+    <div>
+      <div className="text-[10px] text-gray-500">{title}</div>
+      {items.map(item => {
+        const label = kind === 'format' ? `${field.label} format ${item.value}` : `${field.label} = ${item.value}`
+        const active = activeFilter?.label === label
+        return (
+          <button
+            key={item.value}
+            onClick={() => onFilter(active ? null : { label, recordIds: new Set(item.recordIds) })}
+            className={`w-full flex justify-between gap-2 px-1 rounded text-left hover:bg-blue-50 ${active ? 'bg-blue-100' : ''} ${highlight || ''}`}
+            title={active ? 'Show all records' : `Show the ${item.count} records with this ${kind}`}
+          >
+            <span className="truncate font-mono">{item.value}</span>
+            <span className="font-mono text-gray-500">{item.count}</span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+export function DataProfilePanel({ profile, activeFilter, onFilter }: DataProfilePanelProps) {
+  if (profile.recordCount === 0) {
+    return <div className="p-2 text-xs text-gray-500">No records to profile.</div>
+  }
+
+  return (
+    <div className="p-2 border-b border-gray-200 bg-gray-50 text-xs">
+      <div className="grid gap-2" style={{ gridTemplateColumns: 'repeat(auto-fill, minmax(12rem, 1fr))' }}>
+        {profile.fields.map(field => {
+          const missingLabel = `${field.label} missing`
+          return (
+            <div key={field.name} className="p-1.5 bg-white rounded border border-gray-200 space-y-1">
+              <div className="flex justify-between">
+                <span className="font-medium text-gray-700 truncate" title={field.name}>{field.label}</span>
+                <span className="text-[10px] text-gray-400">{field.type}</span>
+              </div>
+
+              <div>
+                <div className="flex justify-between text-[10px]">
+                  <span className="text-gray-600">Filled {formatPercent(field.fillRate)}</span>
+                  <span className="text-gray-600">{field.distinct} distinct</span>
+                </div>
+                <div className="h-1.5 bg-gray-200 rounded overflow-hidden">
+                  <div className={`h-full ${fillColor(field.fillRate)}`} style={{ width: formatPercent(field.fillRate) }} />
+                </div>
+                {field.missingRecordIds.length > 0 && (
+                  <button
+                    onClick={() => onFilter(activeFilter?.label === missingLabel ? null : { label: missingLabel, recordIds: new Set(field.missingRecordIds) })}
+                    className={`text-[10px] text-gray-500 underline hover:text-blue-700 ${activeFilter?.label === missingLabel ? 'text-blue-700' : ''}`}
+                  >
+                    {field.missingRecordIds.length} missing
+                  </button>
+                )}
+              </div>
+
+              <ValueList
+                title="⚠️ Placeholders"
+                items={field.placeholders}
+                field={field}
+                kind="value"
+                highlight="text-orange-700"
+                activeFilter={activeFilter}
+                onFilter={onFilter}
+              />
+              <ValueList title="Formats" items={field.patterns} field={field} kind="format" activeFilter={activeFilter} onFilter={onFilter} />
+              <ValueList title="Top values" items={field.topValues} field={field} kind="value" activeFilter={activeFilter} onFilter={onFilter} />
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,9 @@
 // Edge Renderer - Pure edge rendering logic, no business logic
-import React from 'react'
+import React, { useMemo } from 'react'
 import { NodeData, Edge, UnifiedEdge } from '@/types/common'
-import { GraphRenderConfig } from '@/types/graph'
+import { GraphRenderConfig, GraphHighlight } from '@/types/graph'
 import { drawStraightEdgeBetweenNodes } from '@/utils/graph-utils'
+import { createEdgeIndex, findEdges, getNodeEdges } from '@/utils/edge-index-utils'
 
 interface EdgeRendererProps {
   edges: Edge[]
@@ -15,6 +16,7 @@ interface EdgeRendererProps {
   hoveredEdge: Edge | null
   selectedEdge: Edge | null
   hoveredNode: string | null
+  highlight?: GraphHighlight | null
 }
 
 export function EdgeRenderer({
@@ -27,21 +29,23 @@ export function EdgeRenderer({
   onMouseLeave,
   hoveredEdge,
   selectedEdge,
-  hoveredNode
+  hoveredNode,
+  highlight = null
 }: EdgeRendererProps) {
+  // Lookups per rendered edge - indexed once per render instead of scanning nodes and edges each time
+  const nodesById = useMemo(() => new Map(nodes.map((node) => [node.recordId, node])), [nodes])
+  const edgeIndex = useMemo(() => createEdgeIndex(edges), [edges])
+  const labeledEdgeIndex = useMemo(() => createEdgeIndex(unifiedEdges.filter(e => e.type !== 'neutral')), [unifiedEdges])
+
   // Helper function to get node by record ID
   const getNodeByRecordId = (recordId: string) => {
-    return nodes.find((node) => node.recordId === recordId)
+    return nodesById.get(recordId)
   }
 
   // Helper function to check if a node pair has both positive and negative edges
   const hasCounterpartEdge = (fromId: string, toId: string, currentType: "positive" | "negative"): boolean => {
     const oppositeType = currentType === "positive" ? "negative" : "positive"
-    return edges.some(
-      (edge) =>
-        ((edge.from === fromId && edge.to === toId) || (edge.from === toId && edge.to === fromId)) &&
-        edge.type === oppositeType,
-    )
+    return findEdges(edgeIndex, fromId, toId).some((edge) => edge.type === oppositeType)
   }
 
   return (
@@ -63,7 +67,9 @@ export function EdgeRenderer({
           nonMatchingFields: unifiedEdge.nonMatchingFields || [],
           rulesUsed: unifiedEdge.rulesUsed || [],
           matchScore: unifiedEdge.matchScore,
-          results: unifiedEdge.results || []
+          results: unifiedEdge.results || [],
+          constraint: unifiedEdge.constraint,
+          constraintRules: unifiedEdge.constraintRules
         }
 
         // Ensure we always have a valid edge type for rendering
@@ -108,6 +114,23 @@ export function EdgeRenderer({
           strokeDasharray = "3,3"
         }
 
+        // Hard constraints override the score styling - purple solid for must-link, dark red dash-dot for cannot-link
+        if (unifiedEdge.constraint === 'mustLink') {
+          strokeColor = "#7c3aed" // purple
+          strokeDasharray = "none"
+        } else if (unifiedEdge.constraint === 'cannotLink') {
+          strokeColor = "#7f1d1d" // dark red
+          strokeDasharray = "8,3,2,3"
+        }
+
+        // Neutral-only pairs are context, not relationships - faint gray dots
+        const isNeutral = unifiedEdge.type === 'neutral'
+        if (isNeutral) {
+          strokeColor = "#9ca3af" // light gray
+          strokeDasharray = "1,4"
+          edgeOpacity *= 0.5
+        }
+
         // Enhanced stroke width - thinner default, thicker when selected/hovered/connected to hovered node
         if (isSelected) strokeWidth = config.edgeStrokeWidth + 6 // Increased contrast for selection
         else if (isHovered) strokeWidth = config.edgeStrokeWidth + 4 // More prominent hover effect
@@ -118,8 +141,8 @@ export function EdgeRenderer({
         const pathData = drawStraightEdgeBetweenNodes(fromNode, toNode, renderEdgeType, nodes, 0, false)
 
         // Calculate edge density around nodes to determine label positioning
-        const fromNodeEdgeCount = unifiedEdges.filter(e => e.from === unifiedEdge.from || e.to === unifiedEdge.from).length
-        const toNodeEdgeCount = unifiedEdges.filter(e => e.from === unifiedEdge.to || e.to === unifiedEdge.to).length
+        const fromNodeEdgeCount = getNodeEdges(labeledEdgeIndex, unifiedEdge.from).length
+        const toNodeEdgeCount = getNodeEdges(labeledEdgeIndex, unifiedEdge.to).length
         
         // Smart positioning: use offset for low-density areas, on-edge for high-density areas
         const useOffset = fromNodeEdgeCount <= 3 && toNodeEdgeCount <= 3
@@ -143,6 +166,18 @@ export function EdgeRenderer({
               filter="url(#glow)"
               className="pointer-events-none"
             />
+            {/* Re-scored by the last incremental update - flashes once */}
+            {highlight?.edgeKeys.has(`${unifiedEdge.from}-${unifiedEdge.to}`) && (
+              <path
+                key={`highlight-${highlight.id}`}
+                d={pathData}
+                stroke="#f59e0b"
+                strokeWidth={strokeWidth + 6}
+                fill="none"
+                strokeLinecap="round"
+                className="pointer-events-none animate-graph-flash"
+              />
+            )}
             {/* Main edge path - clickable with enhanced contrast */}
             <path
               d={pathData}
@@ -158,9 +193,9 @@ export function EdgeRenderer({
               onClick={() => onEdgeClick(compositeEdge)}
             />
             
-            {/* Match Score Labels - Smart positioning based on edge density */}
+            {/* Match Score Labels - Smart positioning based on edge density (none on neutral edges) */}
             {/* Label near the "from" node - smart positioning */}
-            <g transform={`translate(${fromNode.x + (toNode.x - fromNode.x) * Math.max(0.15, minDistanceFromNode / Math.sqrt(Math.pow(toNode.x - fromNode.x, 2) + Math.pow(toNode.y - fromNode.y, 2))) + Math.cos(Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) + Math.PI/2) * offsetDistance}, ${fromNode.y + (toNode.y - fromNode.y) * Math.max(0.15, minDistanceFromNode / Math.sqrt(Math.pow(toNode.x - fromNode.x, 2) + Math.pow(toNode.y - fromNode.y, 2))) + Math.sin(Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) + Math.PI/2) * offsetDistance}) rotate(${Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) * 180 / Math.PI + labelRotation})`}>
+            {!isNeutral && <g transform={`translate(${fromNode.x + (toNode.x - fromNode.x) * Math.max(0.15, minDistanceFromNode / Math.sqrt(Math.pow(toNode.x - fromNode.x, 2) + Math.pow(toNode.y - fromNode.y, 2))) + Math.cos(Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) + Math.PI/2) * offsetDistance}, ${fromNode.y + (toNode.y - fromNode.y) * Math.max(0.15, minDistanceFromNode / Math.sqrt(Math.pow(toNode.x - fromNode.x, 2) + Math.pow(toNode.y - fromNode.y, 2))) + Math.sin(Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) + Math.PI/2) * offsetDistance}) rotate(${Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) * 180 / Math.PI + labelRotation})`}>
               <text
                 x="0"
                 y="0"
@@ -177,10 +212,10 @@ export function EdgeRenderer({
               >
                 {compositeEdge.matchScore.toFixed(2)}
               </text>
-            </g>
+            </g>}
             
             {/* Label near the "to" node - smart positioning */}
-            <g transform={`translate(${fromNode.x + (toNode.x - fromNode.x) * Math.max(0.85, 1 - minDistanceFromNode / Math.sqrt(Math.pow(toNode.x - fromNode.x, 2) + Math.pow(toNode.y - fromNode.y, 2))) + Math.cos(Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) + Math.PI/2) * offsetDistance}, ${fromNode.y + (toNode.y - fromNode.y) * Math.max(0.85, 1 - minDistanceFromNode / Math.sqrt(Math.pow(toNode.x - fromNode.x, 2) + Math.pow(toNode.y - fromNode.y, 2))) + Math.sin(Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) + Math.PI/2) * offsetDistance}) rotate(${Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) * 180 / Math.PI + labelRotation})`}>
+            {!isNeutral && <g transform={`translate(${fromNode.x + (toNode.x - fromNode.x) * Math.max(0.85, 1 - minDistanceFromNode / Math.sqrt(Math.pow(toNode.x - fromNode.x, 2) + Math.pow(toNode.y - fromNode.y, 2))) + Math.cos(Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) + Math.PI/2) * offsetDistance}, ${fromNode.y + (toNode.y - fromNode.y) * Math.max(0.85, 1 - minDistanceFromNode / Math.sqrt(Math.pow(toNode.x - fromNode.x, 2) + Math.pow(toNode.y - fromNode.y, 2))) + Math.sin(Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) + Math.PI/2) * offsetDistance}) rotate(${Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) * 180 / Math.PI + labelRotation})`}>
               <text
                 x="0"
                 y="0"
@@ -197,7 +232,7 @@ export function EdgeRenderer({
               >
                 {compositeEdge.matchScore.toFixed(2)}
               </text>
-            </g>
+            </g>}
           </g>
         )
       })}
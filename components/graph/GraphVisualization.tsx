@@ -1,6 +1,6 @@
 // Graph Visualization - Pure visualization component, no business logic
 import React from 'react'
-import { NodeData, Edge, UnifiedEdge, GraphLayout, GraphRenderConfig } from '@/types/graph'
+import { NodeData, Edge, UnifiedEdge, GraphLayout, GraphRenderConfig, GraphHighlight } from '@/types/graph'
 import { NodeRenderer } from './NodeRenderer'
 import { EdgeRenderer } from './EdgeRenderer'
 import { GraphContainer } from './GraphContainer'
@@ -22,6 +22,7 @@ interface GraphVisualizationProps {
   hoveredEdge: Edge | null
   selectedEdge: Edge | null
   getNodeColor: (recordId: string) => string
+  highlight?: GraphHighlight | null // Nodes and edges changed by an incremental update
 }
 
 export function GraphVisualization({
@@ -40,7 +41,8 @@ export function GraphVisualization({
   selectedNode,
   hoveredEdge,
   selectedEdge,
-  getNodeColor
+  getNodeColor,
+  highlight = null
 }: GraphVisualizationProps) {
   return (
     <GraphContainer layout={layout} onEmptyAreaClick={onEmptyAreaClick}>
@@ -56,6 +58,7 @@ export function GraphVisualization({
         hoveredEdge={hoveredEdge}
         selectedEdge={selectedEdge}
         hoveredNode={hoveredNode}
+        highlight={highlight}
       />
       
       {/* Render nodes on top */}
@@ -68,6 +71,7 @@ export function GraphVisualization({
         hoveredNode={hoveredNode}
         selectedNode={selectedNode}
         getNodeColor={getNodeColor}
+        highlight={highlight}
       />
     </GraphContainer>
   )
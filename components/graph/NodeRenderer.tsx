@@ -1,6 +1,6 @@
 // Node Renderer - Pure node rendering logic, no business logic
 import React from 'react'
-import { NodeData, GraphRenderConfig } from '@/types/graph'
+import { NodeData, GraphRenderConfig, GraphHighlight } from '@/types/graph'
 
 interface NodeRendererProps {
   nodes: NodeData[]
@@ -11,6 +11,7 @@ interface NodeRendererProps {
   hoveredNode: NodeData | null
   selectedNode: NodeData | null
   getNodeColor: (recordId: string) => string
+  highlight?: GraphHighlight | null
 }
 
 export function NodeRenderer({
@@ -21,7 +22,8 @@ export function NodeRenderer({
   onMouseLeave,
   hoveredNode,
   selectedNode,
-  getNodeColor
+  getNodeColor,
+  highlight = null
 }: NodeRendererProps) {
   return (
     <>
@@ -35,6 +37,19 @@ export function NodeRenderer({
 
         return (
           <g key={node.recordId}>
+            {/* Changed by the last incremental update - a ring that flashes once (keyed so it replays per update) */}
+            {highlight?.nodeIds.has(node.recordId) && (
+              <circle
+                key={`highlight-${highlight.id}`}
+                cx={node.x}
+                cy={node.y}
+                r={radius + 6}
+                fill="none"
+                stroke="#f59e0b"
+                strokeWidth={4}
+                className="pointer-events-none animate-graph-flash"
+              />
+            )}
             <circle
               cx={node.x}
               cy={node.y}
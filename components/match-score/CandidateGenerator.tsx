@@ -0,0 +1,163 @@
+// Candidate Generator - Blocking: picks the record pairs worth scoring, and estimates what it misses
+import { Edge, NodeData } from '@/types/common'
+import { BlockingConfig, BlockingKeyStats, BlockingStats, CandidatePairs, Ruleset } from '@/types/match-rules'
+import { blockerRegistry, formatBlockingKey } from '@/utils/blocking-utils'
+import { evaluateAllRules, evaluateConstraints } from './RuleEvaluator'
+
+const DEFAULT_MAX_BLOCK_SIZE = 1000
+const DEFAULT_SAMPLE_SIZE = 1000
+
+// Sampling gives up after this many draws per wanted sample (when nearly every pair is a candidate)
+const MAX_DRAWS_PER_SAMPLE = 20
+
+// Fixed seed so the completeness estimate does not change between renders
+const SAMPLE_SEED = 42
+
+// Every index pair i < j, in order, leaving out skipped indices
+function* allPairs(count: number, skip: boolean[] = []): Generator<[number, number]> {
+  for (let i = 0; i < count; i++) {
+    if (skip[i]) continue
+    for (let j = i + 1; j < count; j++) {
+      if (!skip[j]) yield [i, j]
+    }
+  }
+}
+
+// Per node index, whether the record is left out of scoring
+const toSkipList = (nodes: NodeData[], exclude: Set<string>) => nodes.map(node => exclude.has(node.recordId))
+
+// Small seeded PRNG (mulberry32) returning floats in [0, 1)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = Math.imul(state ^ (state >>> 15), state | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// A pair counts as a match when it scores positive or is must-linked, as in the edge types
+function isMatch(matchScore: number, constraint?: string | null): boolean {
+  return constraint === 'mustLink' || (!constraint && matchScore > 0.001)
+}
+
+// Calculate the candidate pairs for a list of nodes. Without blocking keys every pair is a candidate.
+// Records in exclude (record IDs) are left out of every block, so they are in no pair.
+export function calculateCandidatePairs(
+  nodes: NodeData[],
+  blocking: BlockingConfig,
+  exclude: Set<string> = new Set()
+): CandidatePairs {
+  const count = nodes.length
+  const skip = toSkipList(nodes, exclude)
+  if (blocking.keys.length === 0) {
+    return { pairs: Array.from(allPairs(count, skip)), keys: [] }
+  }
+
+  const maxBlockSize = blocking.maxBlockSize ?? DEFAULT_MAX_BLOCK_SIZE
+  const candidates = new Set<number>() // i * count + j
+
+  const keys: BlockingKeyStats[] = blocking.keys.map(spec => {
+    const blocker = blockerRegistry.get(spec.type)
+    if (!blocker) {
+      throw new Error(`Unknown blocker "${spec.type}"`)
+    }
+
+    const keyPairs = new Set<number>()
+    const stats: BlockingKeyStats = { key: formatBlockingKey(spec), blocks: 0, largestBlock: 0, skippedBlocks: 0, pairs: 0 }
+    for (const blockIndices of blocker(nodes, spec)) {
+      const block = exclude.size > 0 ? blockIndices.filter(index => !skip[index]) : blockIndices
+      if (block.length < 2) continue
+      if (block.length > maxBlockSize) {
+        stats.skippedBlocks++
+        continue
+      }
+
+      stats.blocks++
+      stats.largestBlock = Math.max(stats.largestBlock, block.length)
+      for (let a = 0; a < block.length; a++) {
+        for (let b = a + 1; b < block.length; b++) {
+          const i = Math.min(block[a], block[b])
+          const j = Math.max(block[a], block[b])
+          if (i !== j) keyPairs.add(i * count + j)
+        }
+      }
+    }
+
+    stats.pairs = keyPairs.size
+    keyPairs.forEach(pair => candidates.add(pair))
+    return stats
+  })
+
+  const pairs = Array.from(candidates)
+    .sort((a, b) => a - b)
+    .map(pair => [Math.floor(pair / count), pair % count] as [number, number])
+  return { pairs, keys }
+}
+
+// Calculate blocking stats for the edges scored from the candidate pairs. Pairs completeness is
+// estimated by scoring a sample of the excluded pairs - or all of them, when there are few enough.
+// Records in exclude were left out of scoring on purpose: their pairs are neither counted nor sampled.
+export function calculateBlockingStats(
+  nodes: NodeData[],
+  ruleset: Ruleset,
+  candidates: CandidatePairs,
+  edges: Edge[],
+  exclude: Set<string> = new Set()
+): BlockingStats {
+  const count = nodes.length
+  const skip = toSkipList(nodes, exclude)
+  const scoredCount = count - skip.filter(Boolean).length
+  const totalPairs = (scoredCount * (scoredCount - 1)) / 2
+  const excludedPairs = totalPairs - candidates.pairs.length
+  const sampleSize = ruleset.blocking.sampleSize ?? DEFAULT_SAMPLE_SIZE
+  const candidateMatches = edges.filter(edge => edge.type !== 'neutral' && isMatch(edge.matchScore, edge.constraint)).length
+
+  // Pick the excluded pairs to score
+  const candidateSet = new Set(candidates.pairs.map(([i, j]) => i * count + j))
+  const sample: Array<[number, number]> = []
+  const exact = excludedPairs <= sampleSize
+  if (exact) {
+    for (const [i, j] of allPairs(excludedPairs > 0 ? count : 0, skip)) {
+      if (!candidateSet.has(i * count + j)) sample.push([i, j])
+    }
+  } else {
+    const random = createRandom(SAMPLE_SEED)
+    const sampled = new Set<number>()
+    for (let draw = 0; draw < sampleSize * MAX_DRAWS_PER_SAMPLE && sampled.size < sampleSize; draw++) {
+      const a = Math.floor(random() * count)
+      const b = Math.floor(random() * count)
+      const pair = Math.min(a, b) * count + Math.max(a, b)
+      if (a === b || skip[a] || skip[b] || candidateSet.has(pair) || sampled.has(pair)) continue
+      sampled.add(pair)
+      sample.push([Math.min(a, b), Math.max(a, b)])
+    }
+  }
+
+  let sampledMatches = 0
+  for (const [i, j] of sample) {
+    try {
+      const linkConstraint = evaluateConstraints(nodes[i], nodes[j], ruleset)
+      const { totalScore } = evaluateAllRules(nodes[i], nodes[j], ruleset)
+      if (isMatch(totalScore, linkConstraint?.constraint)) sampledMatches++
+    } catch (error) {
+      console.warn(`Error scoring sampled pair ${i}-${j}:`, error)
+    }
+  }
+
+  const estimatedMissedMatches = sample.length > 0 ? Math.round((sampledMatches / sample.length) * excludedPairs) : 0
+  const foundOrMissed = candidateMatches + estimatedMissedMatches
+  return {
+    totalPairs,
+    candidatePairs: candidates.pairs.length,
+    reductionRatio: totalPairs > 0 ? excludedPairs / totalPairs : 0,
+    keys: candidates.keys,
+    candidateMatches,
+    sampledPairs: sample.length,
+    sampledMatches,
+    estimatedMissedMatches,
+    pairsCompleteness: foundOrMissed > 0 ? candidateMatches / foundOrMissed : null,
+    exact
+  }
+}
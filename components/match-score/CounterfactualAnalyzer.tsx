@@ -0,0 +1,183 @@
+// Counterfactual Analyzer - Finds the minimal field changes that would flip each rule for a node pair
+import { NodeData } from '@/types/common'
+import {
+  Counterfactual,
+  CounterfactualAnalysis,
+  FieldChange,
+  FieldState,
+  MatchRule,
+  RuleCounterfactuals,
+  Ruleset
+} from '@/types/match-rules'
+import { compareFieldValues } from '@/utils/comparator-utils'
+import { collectExpressionFields } from '@/utils/rule-utils'
+import { evaluateAllRules, evaluateConstraints, evaluateRuleset, evaluateSingleRule, getFieldComparator } from './RuleEvaluator'
+
+type RuleStatus = 'positive' | 'negative' | 'neutral'
+
+// Largest change set tried per rule - keeps the search at a few thousand evaluations
+const MAX_CHANGES = 3
+
+// Alternatives shown per target status
+const MAX_OPTIONS = 3
+
+const STATUSES: RuleStatus[] = ['positive', 'negative', 'neutral']
+const FIELD_STATES: FieldState[] = ['equal', 'conflict', 'missing']
+
+// Stand-in values: the conflict value shares no characters, digits or sounds with real data
+const PLACEHOLDER_VALUE = 'value'
+const CONFLICT_VALUE = '~~~~'
+
+// Every field compared anywhere in a rule's subtree, with the rule whose comparator decides its state
+function collectRuleFields(rule: MatchRule, fields = new Map<string, MatchRule>()): Map<string, MatchRule> {
+  const ruleFields = [
+    ...rule.fields,
+    ...(rule.when ? collectExpressionFields(rule.when) : [])
+  ]
+  for (const field of ruleFields) {
+    if (!fields.has(field)) fields.set(field, rule)
+  }
+  for (const child of rule.children) collectRuleFields(child, fields)
+  return fields
+}
+
+function getFieldState(node1: NodeData, node2: NodeData, field: string, rule: MatchRule, ruleset: Ruleset): FieldState {
+  const { outcome } = compareFieldValues(
+    node1[field],
+    node2[field],
+    getFieldComparator(rule, field, ruleset),
+    ruleset.missingValues[field]
+  )
+  return outcome === 'match' ? 'equal' : outcome
+}
+
+// Copies of the pair with each changed field rewritten to produce the requested state
+function applyChanges(node1: NodeData, node2: NodeData, changes: FieldChange[]): [NodeData, NodeData] {
+  const changed1: NodeData = { ...node1 }
+  const changed2: NodeData = { ...node2 }
+
+  for (const { field, to } of changes) {
+    const value = changed1[field] || changed2[field] || PLACEHOLDER_VALUE
+    if (to === 'equal') {
+      changed1[field] = value
+      changed2[field] = value
+    } else if (to === 'conflict') {
+      changed1[field] = value
+      changed2[field] = CONFLICT_VALUE
+    } else {
+      changed2[field] = ''
+    }
+  }
+
+  return [changed1, changed2]
+}
+
+// Status of a top-level rule chain, following the edge logic: any positive path wins, then any negative one
+function evaluateChain(rule: MatchRule, node1: NodeData, node2: NodeData, ruleset: Ruleset): { status: RuleStatus; rulesUsed: string[] } {
+  if (rule.constraint) {
+    return { status: evaluateSingleRule(rule, node1, node2, ruleset).status, rulesUsed: [rule.name] }
+  }
+
+  const results = evaluateRuleset(rule, node1, node2, ruleset)
+  const decisive = results.find(r => r.status === 'positive') || results.find(r => r.status === 'negative') || results[0]
+  return { status: decisive.status, rulesUsed: decisive.rulesUsed[0] }
+}
+
+// All k-element subsets of items, in order
+function combinations<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]]
+  const subsets: T[][] = []
+  for (let i = 0; i <= items.length - k; i++) {
+    for (const rest of combinations(items.slice(i + 1), k - 1)) {
+      subsets.push([items[i], ...rest])
+    }
+  }
+  return subsets
+}
+
+// Every way to change each field of the subset to a state it is not in now
+function changeSets(fields: string[], current: Map<string, FieldState>): FieldChange[][] {
+  return fields.reduce<FieldChange[][]>((sets, field) => {
+    const from = current.get(field)!
+    const alternatives = FIELD_STATES.filter(state => state !== from)
+    return sets.flatMap(set => alternatives.map(to => [...set, { field, from, to }]))
+  }, [[]])
+}
+
+// Smallest change sets that move one top-level rule chain to each other status
+function evaluateRuleCounterfactuals(rule: MatchRule, node1: NodeData, node2: NodeData, ruleset: Ruleset): RuleCounterfactuals {
+  const { status } = evaluateChain(rule, node1, node2, ruleset)
+  const ruleFields = collectRuleFields(rule)
+  const fields = Array.from(ruleFields.keys())
+  const current = new Map(fields.map(field => [field, getFieldState(node1, node2, field, ruleFields.get(field)!, ruleset)]))
+
+  const found = new Map<RuleStatus, Counterfactual[]>()
+  const targets = STATUSES.filter(target => target !== status)
+
+  for (let size = 1; size <= Math.min(MAX_CHANGES, fields.length); size++) {
+    const pending = targets.filter(target => !found.has(target))
+    if (pending.length === 0) break
+
+    const foundAtSize = new Map<RuleStatus, Counterfactual[]>()
+    for (const subset of combinations(fields, size)) {
+      for (const changes of changeSets(subset, current)) {
+        const [changed1, changed2] = applyChanges(node1, node2, changes)
+        const outcome = evaluateChain(rule, changed1, changed2, ruleset)
+        if (!pending.includes(outcome.status)) continue
+
+        const options = foundAtSize.get(outcome.status) || []
+        if (options.length >= MAX_OPTIONS) continue
+
+        const linkConstraint = evaluateConstraints(changed1, changed2, ruleset)
+        options.push({
+          rule: rule.name,
+          from: status,
+          to: outcome.status,
+          changes,
+          rulesUsed: outcome.rulesUsed,
+          matchScore: parseFloat(evaluateAllRules(changed1, changed2, ruleset).totalScore.toFixed(3)),
+          constraint: linkConstraint ? linkConstraint.constraint : null
+        })
+        foundAtSize.set(outcome.status, options)
+      }
+    }
+    foundAtSize.forEach((options, target) => found.set(target, options))
+  }
+
+  return {
+    rule: rule.name,
+    status,
+    options: targets.flatMap(target => found.get(target) || [])
+  }
+}
+
+// Evaluate what it would take for a node pair to match / not match under each top-level rule
+export function evaluateCounterfactuals(node1: NodeData, node2: NodeData, ruleset: Ruleset): CounterfactualAnalysis {
+  const linkConstraint = evaluateConstraints(node1, node2, ruleset)
+
+  // Field states across the whole ruleset, each compared as the first rule using the field does
+  const fieldStates: Record<string, FieldState> = {}
+  for (const rule of ruleset.rules) {
+    collectRuleFields(rule).forEach((owner, field) => {
+      if (!(field in fieldStates)) fieldStates[field] = getFieldState(node1, node2, field, owner, ruleset)
+    })
+  }
+
+  const rules: RuleCounterfactuals[] = []
+  for (const rule of ruleset.rules) {
+    try {
+      rules.push(evaluateRuleCounterfactuals(rule, node1, node2, ruleset))
+    } catch (error) {
+      console.warn(`Error analyzing rule ${rule.name}:`, error)
+    }
+  }
+
+  return {
+    node1: node1.recordId,
+    node2: node2.recordId,
+    matchScore: parseFloat(evaluateAllRules(node1, node2, ruleset).totalScore.toFixed(3)),
+    constraint: linkConstraint ? linkConstraint.constraint : null,
+    fieldStates,
+    rules
+  }
+}
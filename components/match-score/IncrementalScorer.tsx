@@ -0,0 +1,71 @@
+// Incremental Scorer - Re-scores only the pairs touching edited records, reusing every other edge
+import { Edge, NodeData } from '@/types/common'
+import { CandidatePairs, IncrementalEdges, Ruleset } from '@/types/match-rules'
+import { calculateEdges } from './MatchScoreCalculator'
+import { calculateCandidatePairs } from './CandidateGenerator'
+
+const edgeKey = (edge: Edge) => `${edge.from}-${edge.to}`
+
+// Calculate edges after the records at changedIndices were edited. Blocking is re-run (it is cheap, and an
+// edited key can move other pairs in or out of the candidates); only pairs touching an edited record or new
+// to the candidates are scored. previousEdges must come from the same ruleset and includeNeutral setting;
+// records whose exclusion changed count as edited.
+export function calculateIncrementalEdges(
+  nodes: NodeData[],
+  ruleset: Ruleset,
+  previousCandidates: CandidatePairs,
+  previousEdges: Edge[],
+  changedIndices: number[],
+  options: { includeNeutral?: boolean; exclude?: Set<string> } = {}
+): IncrementalEdges {
+  const count = nodes.length
+  const changed = new Set(changedIndices)
+  const candidates = calculateCandidatePairs(nodes, ruleset.blocking, options.exclude)
+
+  const previousPairs = new Set(previousCandidates.pairs.map(([i, j]) => i * count + j))
+  const toScore = candidates.pairs.filter(([i, j]) => changed.has(i) || changed.has(j) || !previousPairs.has(i * count + j))
+  const scored = new Map(
+    calculateEdges(nodes, ruleset, {
+      includeNeutral: options.includeNeutral,
+      candidates: { pairs: toScore, keys: candidates.keys },
+      exclude: options.exclude
+    })
+      .map(edge => [edgeKey(edge), edge])
+  )
+  const previous = new Map(previousEdges.map(edge => [edgeKey(edge), edge]))
+  const rescored = new Set(toScore.map(([i, j]) => `${nodes[i].recordId}-${nodes[j].recordId}`))
+
+  // Walk the candidates in order so the edge list matches a full run
+  const edges: Edge[] = []
+  for (const [i, j] of candidates.pairs) {
+    const key = `${nodes[i].recordId}-${nodes[j].recordId}`
+    const edge = rescored.has(key) ? scored.get(key) : previous.get(key)
+    if (edge) edges.push(edge)
+  }
+
+  const affected = new Set(changedIndices.map(index => nodes[index].recordId))
+  const changedEdges: string[] = []
+  scored.forEach((edge, key) => {
+    const before = previous.get(key)
+    if (!before || before.type !== edge.type || before.matchScore !== edge.matchScore || before.constraint !== edge.constraint) {
+      changedEdges.push(key)
+      affected.add(edge.from)
+      affected.add(edge.to)
+    }
+  })
+  const current = new Set(edges.map(edgeKey))
+  previous.forEach((edge, key) => {
+    if (!current.has(key)) {
+      affected.add(edge.from)
+      affected.add(edge.to)
+    }
+  })
+
+  return {
+    candidates,
+    edges,
+    scoredPairs: toScore.length,
+    changedEdges,
+    affectedNodeIds: Array.from(affected)
+  }
+}
@@ -1,154 +1,179 @@
 // Match Score Calculator - Pure edge calculation logic, no visualization
 import { NodeData, Edge, UnifiedEdge } from '@/types/common'
-import { evaluateAllRules } from './RuleEvaluator'
-import { RuleEvaluationResult } from '@/types/match-rules'
-import { matchRules, rulePrecedence } from './MatchRules'
+import { evaluateAllRules, evaluateConstraints } from './RuleEvaluator'
+import { calculateCandidatePairs } from './CandidateGenerator'
+import { CandidatePairs, RuleEvalResult, RuleEvaluationResult, Ruleset } from '@/types/match-rules'
 
-// Generate overall edges based on rule evaluation precedence
-export function calculateEdges(nodeData: NodeData[]): Edge[] {
+// Generate overall edges based on rule evaluation precedence.
+// Only candidate pairs are scored - those of the ruleset's blocking unless options.candidates is given.
+// With includeNeutral, pairs where every rule is neutral get a "neutral" edge instead of being dropped.
+// Pairs with a record in options.exclude (record IDs) are skipped - those records get no edges.
+export function calculateEdges(
+  nodeData: NodeData[],
+  ruleset: Ruleset,
+  options: { includeNeutral?: boolean; candidates?: CandidatePairs; exclude?: Set<string> } = {}
+): Edge[] {
   try {
     const edgeMap = new Map<string, Edge>()
+    const { pairs } = options.candidates || calculateCandidatePairs(nodeData, ruleset.blocking, options.exclude)
     
-    for (let i = 0; i < nodeData.length; i++) {
-      for (let j = i + 1; j < nodeData.length; j++) {
-        try {
-          const node1 = nodeData[i]
-          const node2 = nodeData[j]
-          if (!node1 || !node2) continue
-          
-          // Evaluate all rules to get comprehensive results
-          const evaluationResult = evaluateAllRules(node1, node2)
-          const allResults = evaluationResult.results
-          
+    for (const [i, j] of pairs) {
+      try {
+        const node1 = nodeData[i]
+        const node2 = nodeData[j]
+        if (!node1 || !node2) continue
+        if (options.exclude?.has(node1.recordId) || options.exclude?.has(node2.recordId)) continue
+        
+        // Evaluate all rules to get comprehensive results
+        const evaluationResult = evaluateAllRules(node1, node2, ruleset)
+        const allResults = evaluationResult.results
+        
 
-          
-          // Determine overall edge status based on rule precedence
-          let overallStatus: 'positive' | 'negative' | 'neutral' = 'neutral'
-          let matchingFields: string[] = []
-          let nonMatchingFields: string[] = []
-          let rulesUsed: string[][] = []
-          
-          // Group results by top-level rule
-          const ruleResults: { [ruleName: string]: any[] } = {}
-          for (const result of allResults) {
-            const topRule = result.rulesUsed[0][0]
-            if (!ruleResults[topRule]) {
-              ruleResults[topRule] = []
-            }
-            ruleResults[topRule].push(result)
+        
+        // Determine overall edge status based on rule precedence
+        let overallStatus: 'positive' | 'negative' | 'neutral' = 'neutral'
+        let matchingFields: string[] = []
+        let nonMatchingFields: string[] = []
+        let rulesUsed: string[][] = []
+        
+        // Group results by top-level rule
+        const ruleResults: { [ruleName: string]: any[] } = {}
+        for (const result of allResults) {
+          const topRule = result.rulesUsed[0][0]
+          if (!ruleResults[topRule]) {
+            ruleResults[topRule] = []
           }
+          ruleResults[topRule].push(result)
+        }
+        
+        // Check each rule in order of precedence and collect results
+        const ruleResultsByPrecedence: { ruleName: string; status: 'positive' | 'negative' | 'neutral'; result: any }[] = []
+        
+        for (const rule of ruleset.rules) {
+          const resultsForThisRule = ruleResults[rule.name] || []
           
-          // Check each rule in order of precedence and collect results
-          const ruleResultsByPrecedence: { ruleName: string; status: 'positive' | 'negative' | 'neutral'; result: any }[] = []
-          
-          for (const rule of matchRules) {
-            const resultsForThisRule = ruleResults[rule.name] || []
-            
-            if (resultsForThisRule.length > 0) {
-              // Find the highest precedence result for this rule (shortest path)
-              let highestPrecedenceResult = resultsForThisRule[0]
-              for (const result of resultsForThisRule) {
-                if (result.rulesUsed[0].length < highestPrecedenceResult.rulesUsed[0].length) {
-                  highestPrecedenceResult = result
-                }
+          if (resultsForThisRule.length > 0) {
+            // Find the highest precedence result for this rule (shortest path)
+            let highestPrecedenceResult = resultsForThisRule[0]
+            for (const result of resultsForThisRule) {
+              if (result.rulesUsed[0].length < highestPrecedenceResult.rulesUsed[0].length) {
+                highestPrecedenceResult = result
               }
-              
-              // Record the result for this rule
-              ruleResultsByPrecedence.push({
-                ruleName: rule.name,
-                status: highestPrecedenceResult.status,
-                result: highestPrecedenceResult
-              })
             }
+            
+            // Record the result for this rule
+            ruleResultsByPrecedence.push({
+              ruleName: rule.name,
+              status: highestPrecedenceResult.status,
+              result: highestPrecedenceResult
+            })
           }
+        }
 
-          // Calculate Match Score based on individual rule scores from evaluateAllRules
-          const matchScore = evaluationResult.totalScore
+        // Calculate Match Score based on individual rule scores from evaluateAllRules
+        const matchScore = evaluationResult.totalScore
+        
+        // Determine overall status based on OR logic across all rule chains
+        if (ruleResultsByPrecedence.length > 0) {
+          // Check if ANY rule chain resulted in positive (OR logic)
+          const hasPositiveResult = ruleResultsByPrecedence.some(r => r.status === 'positive')
           
-          // Determine overall status based on OR logic across all rule chains
-          if (ruleResultsByPrecedence.length > 0) {
-            // Check if ANY rule chain resulted in positive (OR logic)
-            const hasPositiveResult = ruleResultsByPrecedence.some(r => r.status === 'positive')
+          if (hasPositiveResult) {
+            // If any rule chain is positive, overall is positive
+            overallStatus = 'positive'
+            // Find the first positive result to get its details
+            const positiveResult = ruleResultsByPrecedence.find(r => r.status === 'positive')
+            if (positiveResult) {
+              matchingFields = positiveResult.result.matchingFields || []
+              nonMatchingFields = positiveResult.result.nonMatchingFields || []
+              rulesUsed = positiveResult.result.rulesUsed || []
+            }
+          } else {
+            // If no positive results, check for negative results
+            const hasNegativeResult = ruleResultsByPrecedence.some(r => r.status === 'negative')
             
-            if (hasPositiveResult) {
-              // If any rule chain is positive, overall is positive
-              overallStatus = 'positive'
-              // Find the first positive result to get its details
-              const positiveResult = ruleResultsByPrecedence.find(r => r.status === 'positive')
-              if (positiveResult) {
-                matchingFields = positiveResult.result.matchingFields || []
-                nonMatchingFields = positiveResult.result.nonMatchingFields || []
-                rulesUsed = positiveResult.result.rulesUsed || []
+            if (hasNegativeResult) {
+              overallStatus = 'negative'
+              // Find the first negative result to get its details
+              const negativeResult = ruleResultsByPrecedence.find(r => r.status === 'negative')
+              if (negativeResult) {
+                matchingFields = []
+                nonMatchingFields = negativeResult.result.nonMatchingFields || []
+                rulesUsed = negativeResult.result.rulesUsed || []
               }
             } else {
-              // If no positive results, check for negative results
-              const hasNegativeResult = ruleResultsByPrecedence.some(r => r.status === 'negative')
-              
-              if (hasNegativeResult) {
-                overallStatus = 'negative'
-                // Find the first negative result to get its details
-                const negativeResult = ruleResultsByPrecedence.find(r => r.status === 'negative')
-                if (negativeResult) {
-                  matchingFields = []
-                  nonMatchingFields = negativeResult.result.nonMatchingFields || []
-                  rulesUsed = negativeResult.result.rulesUsed || []
-                }
-              } else {
-                // Only neutral results
-                overallStatus = 'neutral'
-                const neutralResult = ruleResultsByPrecedence[0]
-                if (neutralResult) {
-                  matchingFields = neutralResult.result.matchingFields || []
-                  nonMatchingFields = neutralResult.result.nonMatchingFields || []
-                  rulesUsed = neutralResult.result.rulesUsed || []
-                }
+              // Only neutral results
+              overallStatus = 'neutral'
+              const neutralResult = ruleResultsByPrecedence[0]
+              if (neutralResult) {
+                matchingFields = neutralResult.result.matchingFields || []
+                nonMatchingFields = neutralResult.result.nonMatchingFields || []
+                rulesUsed = neutralResult.result.rulesUsed || []
               }
             }
           }
+        }
+        
+        // IMPORTANT: Create edges ONLY when there are positive OR negative rule evaluations
+        // This follows the user specification: "An edge should be drawn even if the score is 0 
+        // as long one of the sub-trees has a positive or negative match rule evaluated"
+        // Check ALL results (including child rules) for positive/negative status
+        const hasPositiveOrNegativeRules = allResults.some((r: any) => 
+          r.status === 'positive' || r.status === 'negative'
+        )
+        
+        // Hard constraints always produce an edge, whatever the score
+        const linkConstraint = evaluateConstraints(node1, node2, ruleset)
+        
+        if (hasPositiveOrNegativeRules || linkConstraint) {
+          // Determine edge type based on match score sign
+          let edgeType: "positive" | "negative" | "mixed"
+          if (matchScore > 0.001) {
+            edgeType = "positive"
+          } else if (matchScore < -0.001) {
+            edgeType = "negative"
+          } else {
+            // Score is 0 but has positive/negative rules - show as mixed edge
+            edgeType = "mixed"
+          }
           
-          // IMPORTANT: Create edges ONLY when there are positive OR negative rule evaluations
-          // This follows the user specification: "An edge should be drawn even if the score is 0 
-          // as long one of the sub-trees has a positive or negative match rule evaluated"
-          // Check ALL results (including child rules) for positive/negative status
-          const hasPositiveOrNegativeRules = allResults.some((r: any) => 
-            r.status === 'positive' || r.status === 'negative'
-          )
-          
-          if (hasPositiveOrNegativeRules) {
-            // Determine edge type based on match score sign
-            let edgeType: "positive" | "negative" | "mixed"
-            if (matchScore > 0.001) {
-              edgeType = "positive"
-            } else if (matchScore < -0.001) {
-              edgeType = "negative"
-            } else {
-              // Score is 0 but has positive/negative rules - show as mixed edge
-              edgeType = "mixed"
-            }
-            
 
-            
+          
 
-            
-            edgeMap.set(
-              node1.recordId + '-' + node2.recordId,
-              {
-                from: node1.recordId,
-                to: node2.recordId,
-                type: edgeType,
-                matchingFields,
-                nonMatchingFields,
-                rulesUsed,
-                matchScore: parseFloat(matchScore.toFixed(3)), // Round to 3 decimal places
-                results: allResults, // Store complete rule evaluation results including child rules
-              }
-            )
-            console.log(`EDGE CREATED: ${node1.recordId} <-> ${node2.recordId} | Type: ${edgeType} | Score: ${matchScore.toFixed(3)}`)
-          }
-        } catch (error) {
-          console.warn(`Error processing node pair ${i}-${j}:`, error)
-          continue
+          
+          edgeMap.set(
+            node1.recordId + '-' + node2.recordId,
+            {
+              from: node1.recordId,
+              to: node2.recordId,
+              type: edgeType,
+              matchingFields,
+              nonMatchingFields,
+              rulesUsed,
+              matchScore: parseFloat(matchScore.toFixed(3)), // Round to 3 decimal places
+              results: allResults, // Store complete rule evaluation results including child rules
+              ...(linkConstraint ? { constraint: linkConstraint.constraint, constraintRules: linkConstraint.rules } : {})
+            }
+          )
+        } else if (options.includeNeutral) {
+          // No rule decided anything - keep the pair for display, with a zero score
+          edgeMap.set(
+            node1.recordId + '-' + node2.recordId,
+            {
+              from: node1.recordId,
+              to: node2.recordId,
+              type: "neutral",
+              matchingFields,
+              nonMatchingFields,
+              rulesUsed,
+              matchScore: 0,
+              results: allResults
+            }
+          )
         }
+      } catch (error) {
+        console.warn(`Error processing node pair ${i}-${j}:`, error)
+        continue
       }
     }
     return Array.from(edgeMap.values())
@@ -159,7 +184,7 @@ export function calculateEdges(nodeData: NodeData[]): Edge[] {
 }
 
 // Create unified edges that combine positive and negative relationships
-export function createUnifiedEdges(edges: Edge[], nodeData: NodeData[]): UnifiedEdge[] {
+export function createUnifiedEdges(edges: Edge[], nodeData: NodeData[], ruleset: Ruleset): UnifiedEdge[] {
   const edgeMap = new Map<string, any>()
   
   // Group edges by node pairs and recalculate scores with multiplicative bonus
@@ -176,17 +201,21 @@ export function createUnifiedEdges(edges: Edge[], nodeData: NodeData[]): Unified
       let negativeFields: string[] = []
       let allRulesUsed: string[][] = []
       
-      if (node1 && node2) {
-        // Evaluate all rules to get current score
-        const evaluationResult = evaluateAllRules(node1, node2)
-        actualScore = evaluationResult.totalScore
-        positiveFields = evaluationResult.results
+      // Reuse the results calculateEdges stored on the edge; evaluate only edges built without them
+      const results: RuleEvalResult[] | undefined = edge.results ||
+        (node1 && node2 ? evaluateAllRules(node1, node2, ruleset).results : undefined)
+      
+      if (results) {
+        actualScore = results
+          .filter(r => r.status === 'positive' || r.status === 'negative')
+          .reduce((sum, r) => sum + (r.score || 0), 0)
+        positiveFields = results
           .filter(r => r.status === 'positive')
           .flatMap(r => r.matchingFields)
-        negativeFields = evaluationResult.results
+        negativeFields = results
           .filter(r => r.status === 'negative')
           .flatMap(r => r.nonMatchingFields)
-        allRulesUsed = evaluationResult.results.flatMap(r => r.rulesUsed)
+        allRulesUsed = results.flatMap(r => r.rulesUsed)
       }
       
       edgeMap.set(key, {
@@ -0,0 +1,81 @@
+// Rule Analytics - Aggregates how each rule of the tree fired across all record pairs
+import { Edge } from '@/types/common'
+import { MatchRule, RuleAnalytics, RuleEvalResult, RuleFiringStats, Ruleset } from '@/types/match-rules'
+
+// Rules in tree order, each once (a shared rule is listed where it first appears)
+function flattenRules(rules: MatchRule[], level = 1, seen = new Map<string, { rule: MatchRule; level: number }>()) {
+  for (const rule of rules) {
+    if (seen.has(rule.name)) continue
+    seen.set(rule.name, { rule, level })
+    flattenRules(rule.children, level + 1, seen)
+  }
+  return seen
+}
+
+// Calculate per-rule firing statistics from the edges scored for totalPairs candidate pairs.
+// Pairs without an edge had every rule evaluate neutral, since a neutral rule always evaluates its children.
+export function calculateRuleAnalytics(edges: Edge[], totalPairs: number, ruleset: Ruleset): RuleAnalytics {
+  const flattened = flattenRules(ruleset.rules)
+
+  const stats = new Map<string, RuleFiringStats>()
+  flattened.forEach(({ rule, level }, ruleName) => {
+    stats.set(ruleName, {
+      ruleName,
+      level,
+      positive: 0,
+      negative: 0,
+      neutral: 0,
+      shadowed: 0,
+      positiveScore: 0,
+      negativeScore: 0,
+      ...(rule.constraint ? { constraint: rule.constraint, constraintFired: 0 } : {})
+    })
+  })
+  const scoredRules = Array.from(stats.values()).filter(s => !s.constraint)
+
+  const scoredEdges = edges.filter(edge => edge.type !== 'neutral')
+  for (const edge of scoredEdges) {
+    // A rule's own status does not depend on the path it was reached by - one status per rule per pair
+    const statuses = new Map<string, 'positive' | 'negative' | 'neutral'>()
+    for (const result of (edge.results || []) as RuleEvalResult[]) {
+      for (const { ruleName, status } of result.individualRuleStatuses || []) {
+        statuses.set(ruleName, status)
+      }
+
+      // The rule at the end of a positive or negative path carries the (weighted) score
+      const rulePath = result.rulesUsed[0] || []
+      const scored = stats.get(rulePath[rulePath.length - 1])
+      if (scored && result.status === 'positive') scored.positiveScore += result.score
+      if (scored && result.status === 'negative') scored.negativeScore += result.score
+    }
+
+    for (const ruleStats of scoredRules) {
+      const status = statuses.get(ruleStats.ruleName)
+      if (status) ruleStats[status]++
+      else ruleStats.shadowed++
+    }
+
+    for (const ruleName of edge.constraintRules || []) {
+      const constraintStats = stats.get(ruleName)
+      if (constraintStats) constraintStats.constraintFired! += 1
+    }
+  }
+
+  // Pairs calculateEdges dropped: every scored rule was evaluated and neutral
+  const pairsWithoutEdge = Math.max(0, totalPairs - scoredEdges.length)
+  for (const ruleStats of scoredRules) {
+    ruleStats.neutral += pairsWithoutEdge
+  }
+
+  const rules = Array.from(stats.values())
+  return {
+    totalPairs,
+    rules,
+    neverFired: rules
+      .filter(s => (s.constraint ? s.constraintFired === 0 : s.positive + s.negative === 0))
+      .map(s => s.ruleName),
+    alwaysShadowed: rules
+      .filter(s => !s.constraint && totalPairs > 0 && s.shadowed === totalPairs)
+      .map(s => s.ruleName)
+  }
+}
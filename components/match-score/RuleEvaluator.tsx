@@ -1,39 +1,131 @@
 // Rule Evaluator - Pure rule evaluation logic, no visualization
-import { MatchRule, RuleEvalResult, RuleEvaluationResult } from '@/types/match-rules'
-import { NodeData } from '@/types/common'
-import { matchRules } from './MatchRules'
+import { MatchRule, RuleEvalResult, RuleEvaluationResult, Ruleset, ComparatorSpec, FieldComparison, FieldSimilarity, RuleExpression } from '@/types/match-rules'
+import { LinkConstraint, NodeData } from '@/types/common'
+import { compareFieldValues, DEFAULT_COMPARATOR, isMissingValue } from '@/utils/comparator-utils'
+import { toValueList } from '@/utils/field-utils'
+import { getLevelWeight } from '@/utils/rule-utils'
+
+// ============================================================================
+// RULE EXPRESSIONS - Three-valued (true / false / unknown) boolean logic
+// ============================================================================
+
+// null means "unknown" - the expression depends on a missing value
+export type Truth = boolean | null
+
+// Evaluate a rule expression for a node pair; `compare` returns the (cached) field comparison
+export function evaluateExpression(
+  expression: RuleExpression,
+  node1: NodeData,
+  node2: NodeData,
+  compare: (field: string) => FieldComparison
+): Truth {
+  if ('field' in expression) {
+    if ('equals' in expression) {
+      const val1 = node1[expression.field]
+      const val2 = node2[expression.field]
+      if (isMissingValue(val1) || isMissingValue(val2)) return null
+      // A multi-valued field holds the value if any of its values does
+      const expected = expression.equals.trim().toLowerCase()
+      const holds = (value: unknown) => toValueList(value).some(v => v.trim().toLowerCase() === expected)
+      return holds(val1) && holds(val2)
+    }
+
+    const outcome = compare(expression.field).outcome
+    switch (expression.is || 'equal') {
+      case 'equal': return outcome === 'missing' ? null : outcome === 'match'
+      case 'conflict': return outcome === 'missing' ? null : outcome === 'conflict'
+      case 'missing': return outcome === 'missing'
+    }
+  }
+
+  const evaluate = (operand: RuleExpression) => evaluateExpression(operand, node1, node2, compare)
+
+  if ('all' in expression) {
+    const values = expression.all.map(evaluate)
+    return values.includes(false) ? false : values.includes(null) ? null : true
+  }
+  if ('any' in expression) {
+    const values = expression.any.map(evaluate)
+    return values.includes(true) ? true : values.includes(null) ? null : false
+  }
+  if ('not' in expression) {
+    const value = evaluate(expression.not)
+    return value === null ? null : !value
+  }
+
+  // atLeast N: decided once enough are true, or once too few can still become true
+  const values = expression.of.map(evaluate)
+  const trueCount = values.filter(value => value === true).length
+  const unknownCount = values.filter(value => value === null).length
+  if (trueCount >= expression.atLeast) return true
+  if (trueCount + unknownCount < expression.atLeast) return false
+  return null
+}
 
 // ============================================================================
 // SINGLE RULE EVALUATION - Pure logic for evaluating one individual rule
 // ============================================================================
 
+// Pick the comparator for a field: the rule's own override, then the ruleset default, then exact
+export function getFieldComparator(rule: MatchRule, field: string, ruleset: Ruleset): ComparatorSpec {
+  return rule.comparators?.[field] || ruleset.comparators[field] || DEFAULT_COMPARATOR
+}
+
 // Evaluate a single rule in isolation - no children, no scoring, just rule status
-export function evaluateSingleRule(rule: MatchRule, node1: NodeData, node2: NodeData): RuleEvalResult {
+export function evaluateSingleRule(rule: MatchRule, node1: NodeData, node2: NodeData, ruleset: Ruleset): RuleEvalResult {
   const matchingFields: string[] = []
   const nonMatchingFields: string[] = []
   const missing: string[] = []
+  const fieldSimilarities: FieldSimilarity[] = []
+  
+  // Compare each field once with its comparator; expressions reuse the cached comparison
+  const comparisons = new Map<string, FieldComparison>()
+  const compare = (f: string) => {
+    if (!comparisons.has(f)) {
+      comparisons.set(f, compareFieldValues(node1[f], node2[f], getFieldComparator(rule, f, ruleset), ruleset.missingValues[f]))
+    }
+    return comparisons.get(f)!
+  }
   
-  // Single loop to evaluate all fields
+  // Single loop to evaluate all fields with each field's comparator
   for (const f of rule.fields) {
-    const val1 = (node1 as any)[f]
-    const val2 = (node2 as any)[f]
+    const comparison = compare(f)
+    fieldSimilarities.push({ field: f, ...comparison })
     
-    // Check if field is missing (null, undefined, or empty string)
-    if (val1 == null || val2 == null || val1 === undefined || val2 === undefined || val1 === "" || val2 === "") {
+    if (comparison.outcome === 'missing') {
       missing.push(f)
+    } else if (comparison.outcome === 'match') {
+      matchingFields.push(f)
     } else {
-      // Field is present - check for match or conflict
-      if (val1 === val2) {
-        matchingFields.push(f)
-      } else {
-        nonMatchingFields.push(f)
-      }
+      nonMatchingFields.push(f)
     }
   }
   
   // Calculate the score based on your exact specification:
   const totalFieldsWithValues = matchingFields.length + nonMatchingFields.length
   
+  // A rule whose `when` condition does not hold for this pair does not apply - NEUTRAL
+  if (rule.when && evaluateExpression(rule.when, node1, node2, compare) !== true) {
+    return { 
+      status: "neutral", 
+      matchingFields, 
+      nonMatchingFields, 
+      missingFields: missing,
+      rulesUsed: [[rule.name]],
+      score: 0,
+      fieldSimilarities
+    }
+  }
+  
+  if (rule.match) {
+    return evaluateExpressionRule(rule, rule.match, node1, node2, compare, {
+      matchingFields,
+      nonMatchingFields,
+      missing,
+      fieldSimilarities
+    })
+  }
+  
   if (totalFieldsWithValues === 0) {
     // All fields are missing (all partial) - NEUTRAL
     return { 
@@ -42,7 +134,8 @@ export function evaluateSingleRule(rule: MatchRule, node1: NodeData, node2: Node
       nonMatchingFields, 
       missingFields: missing,
       rulesUsed: [[rule.name]],
-      score: 0 // Neutral rules have score 0
+      score: 0, // Neutral rules have score 0
+      fieldSimilarities
     }
   }
   
@@ -51,13 +144,17 @@ export function evaluateSingleRule(rule: MatchRule, node1: NodeData, node2: Node
   let score = 0
   
   if (nonMatchingFields.length === 0 && missing.length === 0) {
-    // All fields matching the rule - +1 POSITIVE
+    // All fields matching the rule - POSITIVE with score = mean field similarity (1.0 for exact matches)
     status = "positive"
-    score = 1.0
+    score = fieldSimilarities.reduce((sum, f) => sum + f.similarity, 0) / fieldSimilarities.length
   } else if (nonMatchingFields.length > 0) {
-    // Some fields not matching but present - NEGATIVE with score -(fields no match)/(total fields with values)
+    // Some fields not matching but present - NEGATIVE with score -Σ(1 - similarity of conflicts)/(total fields with values)
+    // so a near-miss conflict costs less than a completely different value
     status = "negative"
-    score = -(nonMatchingFields.length / totalFieldsWithValues)
+    const conflictWeight = fieldSimilarities
+      .filter(f => f.outcome === 'conflict')
+      .reduce((sum, f) => sum + (1 - f.similarity), 0)
+    score = -(conflictWeight / totalFieldsWithValues)
   } else if (matchingFields.length > 0 && missing.length > 0) {
     // Some fields matching and some are partial - NEUTRAL
     status = "neutral"
@@ -75,23 +172,52 @@ export function evaluateSingleRule(rule: MatchRule, node1: NodeData, node2: Node
     nonMatchingFields, 
     missingFields: missing,
     rulesUsed: [[rule.name]],
-    score: score // Add the calculated score
+    score: score, // Add the calculated score
+    fieldSimilarities
   }
 }
 
-// ============================================================================
-// LEVEL MULTIPLIER - Apply level-based scoring adjustments
-// ============================================================================
-
-// Get level multiplier based on rule depth (L1=1.0, L2=0.75, L3=0.5, L4=0.25, L5=0.1)
-function getLevelMultiplier(level: number): number {
-  switch (level) {
-    case 1: return 1.0    // L1 rules
-    case 2: return 0.75   // L2 rules  
-    case 3: return 0.5    // L3 rules
-    case 4: return 0.25   // L4 rules
-    case 5: return 0.1    // L5 rules
-    default: return 0.1   // L5+ rules
+// Status and score of a rule defined by a `match` expression:
+// true → POSITIVE (mean similarity of matching fields), false → NEGATIVE, unknown → NEUTRAL
+function evaluateExpressionRule(
+  rule: MatchRule,
+  expression: RuleExpression,
+  node1: NodeData,
+  node2: NodeData,
+  compare: (field: string) => FieldComparison,
+  fields: { matchingFields: string[]; nonMatchingFields: string[]; missing: string[]; fieldSimilarities: FieldSimilarity[] }
+): RuleEvalResult {
+  const { matchingFields, nonMatchingFields, missing, fieldSimilarities } = fields
+  const truth = evaluateExpression(expression, node1, node2, compare)
+  
+  let status: 'positive' | 'negative' | 'neutral' = "neutral"
+  let score = 0
+  
+  if (truth === true) {
+    status = "positive"
+    const matched = fieldSimilarities.filter(f => f.outcome === 'match')
+    score = matched.length > 0 ? matched.reduce((sum, f) => sum + f.similarity, 0) / matched.length : 1.0
+  } else if (truth === false) {
+    // Same penalty as a plain rule; an expression that fails without any conflicting field
+    // (e.g. a value test) costs one field's worth
+    status = "negative"
+    const totalFieldsWithValues = matchingFields.length + nonMatchingFields.length
+    const conflictWeight = fieldSimilarities
+      .filter(f => f.outcome === 'conflict')
+      .reduce((sum, f) => sum + (1 - f.similarity), 0)
+    score = conflictWeight > 0
+      ? -(conflictWeight / totalFieldsWithValues)
+      : -(1 / Math.max(totalFieldsWithValues, 1))
+  }
+  
+  return {
+    status,
+    matchingFields,
+    nonMatchingFields,
+    missingFields: missing,
+    rulesUsed: [[rule.name]],
+    score,
+    fieldSimilarities
   }
 }
 
@@ -100,38 +226,45 @@ function getLevelMultiplier(level: number): number {
 // ============================================================================
 
 // Evaluate a ruleset with hierarchical logic (OR logic for children)
-export function evaluateRuleset(rule: MatchRule, node1: NodeData, node2: NodeData, path: string[] = []): RuleEvalResult[] {
+export function evaluateRuleset(rule: MatchRule, node1: NodeData, node2: NodeData, ruleset: Ruleset, path: string[] = []): RuleEvalResult[] {
   // First, evaluate this single rule in isolation
-  const singleRuleResult = evaluateSingleRule(rule, node1, node2)
+  const singleRuleResult = evaluateSingleRule(rule, node1, node2, ruleset)
   
   // Build the complete rule path for this rule
   const currentPath = [...path, rule.name]
   
   // If rule is positive or negative, return it with the complete path
   if (singleRuleResult.status === "positive" || singleRuleResult.status === "negative") {
-    // Apply level multiplier based on rule depth
-    const levelMultiplier = getLevelMultiplier(currentPath.length)
-    const adjustedScore = (singleRuleResult.score || 0) * levelMultiplier
+    // Apply the level weight for the rule depth and the rule's own weight
+    const levelWeight = getLevelWeight(currentPath.length, ruleset)
+    const ruleWeight = rule.weight ?? 1
+    const adjustedScore = (singleRuleResult.score || 0) * levelWeight * ruleWeight
     
-    // Create individual rule scores for UI display
+    // Create individual rule scores for UI display - only the scored rule carries its own weight
     const individualRuleScores = currentPath.map((ruleName, index) => {
       const level = index + 1
-      const baseScore = index === currentPath.length - 1 ? singleRuleResult.score || 0 : 0
-      const multiplier = getLevelMultiplier(level)
+      const isScoredRule = index === currentPath.length - 1
+      const baseScore = isScoredRule ? singleRuleResult.score || 0 : 0
+      const ruleLevelWeight = getLevelWeight(level, ruleset)
+      const weight = isScoredRule ? ruleWeight : 1
+      const multiplier = ruleLevelWeight * weight
       const finalScore = baseScore * multiplier
       
       return {
         ruleName,
         baseScore,
         multiplier,
+        levelWeight: ruleLevelWeight,
+        ruleWeight: weight,
         finalScore,
-        level
+        level,
+        ...(isScoredRule ? { fieldSimilarities: singleRuleResult.fieldSimilarities } : {})
       }
     })
     
     return [{
       ...singleRuleResult,
-      score: adjustedScore, // Apply level multiplier
+      score: adjustedScore, // Apply level and rule weights
       rulesUsed: [currentPath],
       // Store individual rule status for this rule
       individualRuleStatuses: [{ ruleName: rule.name, status: singleRuleResult.status }],
@@ -144,7 +277,7 @@ export function evaluateRuleset(rule: MatchRule, node1: NodeData, node2: NodeDat
   let results: RuleEvalResult[] = []
   
   for (const child of rule.children || []) {
-    const childResults = evaluateRuleset(child, node1, node2, currentPath)
+    const childResults = evaluateRuleset(child, node1, node2, ruleset, currentPath)
     results = results.concat(childResults)
   }
   
@@ -171,13 +304,16 @@ export function evaluateRuleset(rule: MatchRule, node1: NodeData, node2: NodeDat
   }]
 }
 
-// Evaluate all rules for a node pair and return comprehensive results
-export function evaluateAllRules(node1: NodeData, node2: NodeData): RuleEvaluationResult {
+// Evaluate all rules of a ruleset for a node pair and return comprehensive results
+export function evaluateAllRules(node1: NodeData, node2: NodeData, ruleset: Ruleset): RuleEvaluationResult {
   const allResults: RuleEvalResult[] = []
   
-  for (const rule of matchRules) {
+  for (const rule of ruleset.rules) {
+    // Constraint rules decide links directly and never add to the score - see evaluateConstraints
+    if (rule.constraint) continue
+    
     try {
-      const ruleResults = evaluateRuleset(rule, node1, node2)
+      const ruleResults = evaluateRuleset(rule, node1, node2, ruleset)
       allResults.push(...ruleResults)
     } catch (error) {
       console.warn(`Error evaluating rule ${rule.name}:`, error)
@@ -216,4 +352,36 @@ export function evaluateAllRules(node1: NodeData, node2: NodeData): RuleEvaluati
     uniquePositiveRules,
     multiplier: 1 // No multiplier needed with individual rule scores
   }
-} 
\ No newline at end of file
+}
+
+// ============================================================================
+// HARD CONSTRAINTS - Must-link / cannot-link rules that bypass the score
+// ============================================================================
+
+// Evaluate the ruleset's constraint rules for a node pair: a positive must-link rule
+// or a negative cannot-link rule fires. Cannot-link wins when both kinds fire.
+export function evaluateConstraints(
+  node1: NodeData,
+  node2: NodeData,
+  ruleset: Ruleset
+): { constraint: LinkConstraint; rules: string[] } | null {
+  const fired: Record<LinkConstraint, string[]> = { mustLink: [], cannotLink: [] }
+  
+  for (const rule of ruleset.rules) {
+    if (!rule.constraint) continue
+    
+    try {
+      const { status } = evaluateSingleRule(rule, node1, node2, ruleset)
+      if ((rule.constraint === 'mustLink' && status === 'positive') ||
+          (rule.constraint === 'cannotLink' && status === 'negative')) {
+        fired[rule.constraint].push(rule.name)
+      }
+    } catch (error) {
+      console.warn(`Error evaluating constraint rule ${rule.name}:`, error)
+    }
+  }
+  
+  if (fired.cannotLink.length > 0) return { constraint: 'cannotLink', rules: fired.cannotLink }
+  if (fired.mustLink.length > 0) return { constraint: 'mustLink', rules: fired.mustLink }
+  return null
+}
@@ -0,0 +1,56 @@
+// Rule Test Runner - Runs a ruleset's labeled test pairs through the evaluation pipeline
+import { NodeData } from '@/types/common'
+import { Ruleset, RuleTestCase, RuleTestResult } from '@/types/match-rules'
+import { normalizeNodes } from '@/utils/normalization-utils'
+import { parseFieldValue } from '@/utils/field-utils'
+import { evaluateAllRules, evaluateConstraints } from './RuleEvaluator'
+
+// Run one test pair exactly as the graph would: normalize, evaluate, then check the expectation
+export function runRuleTest(test: RuleTestCase, ruleset: Ruleset): RuleTestResult {
+  const nodes: NodeData[] = test.records.map((record, index) => ({
+    ...Object.fromEntries(Object.entries(record).map(([field, value]) => [field, parseFieldValue(field, value)])),
+    recordId: `${test.name}#${index + 1}`,
+    x: 0,
+    y: 0
+  }))
+  const [node1, node2] = normalizeNodes(nodes, ruleset.normalization, ruleset.missingValues)
+
+  const evaluation = evaluateAllRules(node1, node2, ruleset)
+  const linkConstraint = evaluateConstraints(node1, node2, ruleset)
+
+  // Overall status follows the edge logic: any positive rule chain wins, then any negative one
+  const status = evaluation.results.some(r => r.status === 'positive')
+    ? 'positive'
+    : evaluation.results.some(r => r.status === 'negative') ? 'negative' : 'neutral'
+  const score = parseFloat(evaluation.totalScore.toFixed(3))
+  const constraint = linkConstraint ? linkConstraint.constraint : null
+
+  const { expect } = test
+  const failures: string[] = []
+  if (expect.status !== undefined && status !== expect.status) {
+    failures.push(`expected ${expect.status}, got ${status}`)
+  }
+  if (expect.minScore !== undefined && score < expect.minScore) {
+    failures.push(`score ${score} is below ${expect.minScore}`)
+  }
+  if (expect.maxScore !== undefined && score > expect.maxScore) {
+    failures.push(`score ${score} is above ${expect.maxScore}`)
+  }
+  if (expect.constraint !== undefined && (constraint || 'none') !== expect.constraint) {
+    failures.push(`expected constraint ${expect.constraint}, got ${constraint || 'none'}`)
+  }
+
+  return { test, passed: failures.length === 0, status, score, constraint, failures }
+}
+
+// Run every test pair attached to the ruleset
+export function runRuleTests(ruleset: Ruleset): RuleTestResult[] {
+  return ruleset.tests.map(test => {
+    try {
+      return runRuleTest(test, ruleset)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { test, passed: false, status: 'neutral', score: 0, constraint: null, failures: [`error: ${message}`] }
+    }
+  })
+}
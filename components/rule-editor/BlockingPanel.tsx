@@ -0,0 +1,73 @@
+// Blocking Panel - Candidate pairs kept by each blocking key, reduction ratio and estimated pairs completeness
+import React from 'react'
+import { BlockingStats } from '@/types/match-rules'
+
+interface BlockingPanelProps {
+  stats: BlockingStats
+}
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`
+
+export function BlockingPanel({ stats }: BlockingPanelProps) {
+  if (stats.keys.length === 0) {
+    return (
+      <div className="text-xs text-gray-500">
+        No blocking keys - all {stats.totalPairs} pairs are scored. Add a <code>blocking</code> section to the rule file to score candidate pairs only.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex justify-between">
+        <span className="text-gray-600">Candidate pairs</span>
+        <span className="font-mono">{stats.candidatePairs} / {stats.totalPairs}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-600">Reduction ratio</span>
+        <span className="font-mono">{formatPercent(stats.reductionRatio)}</span>
+      </div>
+      <div
+        className="flex justify-between"
+        title={`${stats.candidateMatches} matches among candidates; ${stats.sampledMatches} of ${stats.sampledPairs} scored excluded pairs match`}
+      >
+        <span className="text-gray-600">Pairs completeness{stats.exact ? '' : ' (est.)'}</span>
+        <span className="font-mono">
+          {stats.pairsCompleteness === null ? '-' : formatPercent(stats.pairsCompleteness)}
+        </span>
+      </div>
+      {stats.estimatedMissedMatches > 0 && (
+        <div className="p-1.5 bg-yellow-50 rounded border border-yellow-200 text-yellow-800">
+          {stats.exact ? '' : '≈ '}{stats.estimatedMissedMatches} matching pairs are never scored
+        </div>
+      )}
+
+      {/* Per key - pairs overlap between keys, so they do not add up to the candidate count */}
+      <table className="w-full">
+        <thead>
+          <tr className="text-[10px] text-gray-500">
+            <th className="text-left font-normal">Key</th>
+            <th className="text-right font-normal">Blocks</th>
+            <th className="text-right font-normal">Largest</th>
+            <th className="text-right font-normal">Pairs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.keys.map(key => (
+            <tr key={key.key} className="border-t border-gray-100">
+              <td className="py-0.5 truncate max-w-[8rem]" title={key.key}>{key.key}</td>
+              <td className="text-right font-mono">{key.blocks}</td>
+              <td className="text-right font-mono">
+                {key.largestBlock}
+                {key.skippedBlocks > 0 && (
+                  <span className="text-orange-600" title="Blocks over maxBlockSize, skipped"> +{key.skippedBlocks} skipped</span>
+                )}
+              </td>
+              <td className="text-right font-mono">{key.pairs}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
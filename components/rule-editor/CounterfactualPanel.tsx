@@ -0,0 +1,76 @@
+// Counterfactual Panel - "What would it take?" for a record pair: the smallest field changes that flip each rule
+import React from 'react'
+import { CounterfactualAnalysis, FieldChange, FieldState } from '@/types/match-rules'
+
+interface CounterfactualPanelProps {
+  analysis: CounterfactualAnalysis
+}
+
+const STATE_STYLES: Record<FieldState, string> = {
+  equal: 'bg-green-50 text-green-700',
+  conflict: 'bg-red-50 text-red-700',
+  missing: 'bg-gray-100 text-gray-500'
+}
+
+const STATUS_STYLES = {
+  positive: 'bg-green-100 text-green-700',
+  negative: 'bg-red-100 text-red-700',
+  neutral: 'bg-gray-100 text-gray-600'
+}
+
+const describeChange = ({ field, from, to }: FieldChange) =>
+  to === 'missing' ? `clear ${field}` : from === 'missing' ? `add ${to} ${field}` : `make ${field} ${to}`
+
+const scoreColor = (score: number) =>
+  score > 0.001 ? 'text-green-600' : score < -0.001 ? 'text-red-600' : 'text-gray-600'
+
+export function CounterfactualPanel({ analysis }: CounterfactualPanelProps) {
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-gray-700">{analysis.node1} ↔ {analysis.node2}</span>
+        <span className={`font-mono font-medium ${scoreColor(analysis.matchScore)}`}>{analysis.matchScore.toFixed(3)}</span>
+      </div>
+
+      {/* Current field states */}
+      <div className="flex flex-wrap gap-1">
+        {Object.entries(analysis.fieldStates).map(([field, state]) => (
+          <span key={field} className={`px-1 rounded text-[10px] ${STATE_STYLES[state]}`}>
+            {field} {state}
+          </span>
+        ))}
+      </div>
+
+      {/* Per rule: the minimal change sets that move it to another status */}
+      <div className="space-y-1.5">
+        {analysis.rules.map(rule => (
+          <div key={rule.rule} className="p-1.5 bg-gray-50 rounded border border-gray-200">
+            <div className="flex items-center gap-1 mb-1">
+              <span className="font-medium text-gray-700">{rule.rule}</span>
+              <span className={`px-1 rounded text-[10px] ${STATUS_STYLES[rule.status]}`}>{rule.status}</span>
+            </div>
+            {rule.options.length === 0 ? (
+              <div className="text-[10px] text-gray-500">No change of up to 3 fields flips this rule</div>
+            ) : (
+              <div className="space-y-0.5">
+                {rule.options.map((option, index) => (
+                  <div key={index} className="flex items-center gap-1 text-[10px]" title={option.rulesUsed.join(' → ')}>
+                    <span className="text-gray-400">→</span>
+                    <span className={`px-1 rounded ${STATUS_STYLES[option.to]}`}>{option.to}</span>
+                    <span className="flex-1 text-gray-600">{option.changes.map(describeChange).join(' + ')}</span>
+                    {option.constraint && (
+                      <span className={option.constraint === 'mustLink' ? 'text-purple-700' : 'text-red-800'}>
+                        {option.constraint === 'mustLink' ? '🔒' : '⛔'}
+                      </span>
+                    )}
+                    <span className={`font-mono ${scoreColor(option.matchScore)}`}>{option.matchScore.toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+// Pair Inspector Panel - Full rule evaluation for any two records, whether or not they share an edge
+import React from 'react'
+import { LinkConstraint } from '@/types/common'
+import { RuleEvaluationResult } from '@/types/match-rules'
+
+interface PairInspectorPanelProps {
+  evaluation: RuleEvaluationResult
+  constraint: { constraint: LinkConstraint; rules: string[] } | null
+  hasEdge: boolean // False when calculateEdges dropped the pair because every rule was neutral
+  isCandidate: boolean // False when blocking never paired the records, so they were not scored
+}
+
+const STATUS_STYLES = {
+  positive: 'bg-green-100 text-green-700',
+  negative: 'bg-red-100 text-red-700',
+  neutral: 'bg-gray-100 text-gray-600'
+}
+
+export function PairInspectorPanel({ evaluation, constraint, hasEdge, isCandidate }: PairInspectorPanelProps) {
+  return (
+    <div className="space-y-2 text-xs">
+      {!isCandidate && (
+        <div className="p-1.5 bg-yellow-50 rounded border border-yellow-200 text-[10px] text-yellow-800">
+          Not a candidate pair - no blocking key groups these records, so they were never scored
+        </div>
+      )}
+      {isCandidate && !hasEdge && (
+        <div className="p-1.5 bg-gray-50 rounded border border-gray-200 text-[10px] text-gray-600">
+          No edge - every rule is neutral for this pair
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <span className="text-gray-600">Score</span>
+        <span className="font-mono">
+          <span className="text-green-600">+{evaluation.positiveScore.toFixed(2)}</span>
+          {' '}<span className="text-red-600">{evaluation.negativeScore.toFixed(2)}</span>
+          {' '}= <span className="font-medium">{evaluation.totalScore.toFixed(3)}</span>
+        </span>
+      </div>
+
+      {constraint && (
+        <div className={constraint.constraint === 'mustLink' ? 'text-purple-700' : 'text-red-800'}>
+          {constraint.constraint === 'mustLink' ? '🔒 Must-link' : '⛔ Cannot-link'} by {constraint.rules.join(', ')}
+        </div>
+      )}
+
+      {/* One entry per evaluated rule path, as returned by evaluateAllRules */}
+      <div className="space-y-1.5">
+        {evaluation.results.map((result, index) => (
+          <div key={index} className="p-1.5 bg-gray-50 rounded border border-gray-200 space-y-1">
+            <div className="flex items-center gap-1 flex-wrap">
+              {result.rulesUsed[0].map((ruleName, ruleIndex) => {
+                const status = result.individualRuleStatuses?.find(s => s.ruleName === ruleName)?.status || result.status
+                return (
+                  <React.Fragment key={ruleName}>
+                    {ruleIndex > 0 && <span className="text-gray-400 text-[10px]">→</span>}
+                    <span className={`px-1 rounded text-[10px] ${STATUS_STYLES[status]}`}>{ruleName}</span>
+                  </React.Fragment>
+                )
+              })}
+              <span className="flex-1" />
+              <span className="font-mono text-gray-600">{result.score.toFixed(2)}</span>
+            </div>
+            <div className="flex flex-wrap gap-1 text-[10px]">
+              {result.matchingFields.map(field => (
+                <span key={`m-${field}`} className="px-1 rounded bg-green-50 text-green-700">{field}</span>
+              ))}
+              {result.nonMatchingFields.map(field => (
+                <span key={`c-${field}`} className="px-1 rounded bg-red-50 text-red-700">{field} ≠</span>
+              ))}
+              {result.missingFields.map(field => (
+                <span key={`x-${field}`} className="px-1 rounded bg-gray-100 text-gray-500">{field} missing</span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+// Rule Analytics Panel - How often each rule fired across the dataset, and rules that never do
+import React from 'react'
+import { RuleAnalytics } from '@/types/match-rules'
+
+interface RuleAnalyticsPanelProps {
+  analytics: RuleAnalytics
+}
+
+const percent = (count: number, total: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : '-')
+
+export function RuleAnalyticsPanel({ analytics }: RuleAnalyticsPanelProps) {
+  const { totalPairs, rules, neverFired, alwaysShadowed } = analytics
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="text-gray-600">{totalPairs} scored record pairs</div>
+
+      {/* One row per rule, indented by tree depth */}
+      <table className="w-full">
+        <thead>
+          <tr className="text-[10px] text-gray-500">
+            <th className="text-left font-normal">Rule</th>
+            <th className="text-right font-normal" title="Positive">+</th>
+            <th className="text-right font-normal" title="Negative">−</th>
+            <th className="text-right font-normal" title="Neutral">0</th>
+            <th className="text-right font-normal" title="Not evaluated - an ancestor was already positive or negative">shadow</th>
+            <th className="text-right font-normal" title="Score contributed over all pairs">Σ score</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map(rule => (
+            <tr key={rule.ruleName} className="border-t border-gray-100">
+              <td className="py-0.5 truncate max-w-[8rem]" style={{ paddingLeft: `${(rule.level - 1) * 8}px` }} title={rule.ruleName}>
+                {rule.ruleName}
+              </td>
+              {rule.constraint ? (
+                <td colSpan={5} className={`text-right ${rule.constraint === 'mustLink' ? 'text-purple-700' : 'text-red-800'}`}>
+                  {rule.constraint === 'mustLink' ? '🔒 linked' : '⛔ separated'} {rule.constraintFired}
+                </td>
+              ) : (
+                <>
+                  <td className="text-right font-mono text-green-600" title={percent(rule.positive, totalPairs)}>{rule.positive}</td>
+                  <td className="text-right font-mono text-red-600" title={percent(rule.negative, totalPairs)}>{rule.negative}</td>
+                  <td className="text-right font-mono text-gray-500" title={percent(rule.neutral, totalPairs)}>{rule.neutral}</td>
+                  <td className="text-right font-mono text-gray-400" title={percent(rule.shadowed, totalPairs)}>{rule.shadowed}</td>
+                  <td className="text-right font-mono">{(rule.positiveScore + rule.negativeScore).toFixed(2)}</td>
+                </>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {neverFired.length > 0 && (
+        <div className="p-1.5 bg-yellow-50 rounded border border-yellow-200 text-yellow-800">
+          Never fire: {neverFired.join(', ')}
+        </div>
+      )}
+      {alwaysShadowed.length > 0 && (
+        <div className="p-1.5 bg-orange-50 rounded border border-orange-200 text-orange-800">
+          Always shadowed by a parent: {alwaysShadowed.join(', ')}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+// Rule Test Panel - Pass/fail of the ruleset's labeled test pairs, re-run on every edit
+import React, { useState } from 'react'
+import { RuleTestResult } from '@/types/match-rules'
+
+interface RuleTestPanelProps {
+  results: RuleTestResult[]
+  committedResults?: RuleTestResult[] // Results of the committed rules while a draft is being edited
+}
+
+const formatRecord = (record: Record<string, string>) =>
+  Object.entries(record).map(([field, value]) => `${field}: ${value}`).join(', ')
+
+export function RuleTestPanel({ results, committedResults }: RuleTestPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const failed = results.filter(result => !result.passed).length
+
+  if (results.length === 0) {
+    return (
+      <div className="px-1 text-[10px] text-gray-500">
+        No tests - add labeled pairs under "tests" in the rule file
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className={`px-1 text-xs font-medium ${failed > 0 ? 'text-red-600' : 'text-green-600'}`}>
+        {results.length - failed}/{results.length} passed
+      </div>
+      {results.map(result => {
+        const committed = committedResults?.find(r => r.test.name === result.test.name)
+        const changed = committed !== undefined && committed.passed !== result.passed
+        const isExpanded = expanded === result.test.name
+
+        return (
+          <div key={result.test.name} className="text-[11px]">
+            <button
+              onClick={() => setExpanded(isExpanded ? null : result.test.name)}
+              className="w-full flex items-center gap-1 px-1 rounded text-left hover:bg-gray-50"
+            >
+              <span className={result.passed ? 'text-green-600' : 'text-red-600'}>{result.passed ? '✓' : '✗'}</span>
+              <span className="flex-1 truncate">{result.test.name}</span>
+              {changed && (
+                <span className={`px-1 rounded text-[9px] ${result.passed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                  {result.passed ? 'fixed' : 'broken by edit'}
+                </span>
+              )}
+              <span className="font-mono text-gray-500">{result.score.toFixed(2)}</span>
+            </button>
+            {isExpanded && (
+              <div className="ml-4 p-1 bg-gray-50 rounded border border-gray-200 text-[10px] text-gray-600 space-y-0.5">
+                <div>1: {formatRecord(result.test.records[0])}</div>
+                <div>2: {formatRecord(result.test.records[1])}</div>
+                <div>
+                  Expected {[
+                    result.test.expect.status,
+                    result.test.expect.minScore !== undefined && `score ≥ ${result.test.expect.minScore}`,
+                    result.test.expect.maxScore !== undefined && `score ≤ ${result.test.expect.maxScore}`,
+                    result.test.expect.constraint !== undefined && `constraint ${result.test.expect.constraint}`
+                  ].filter(Boolean).join(', ')}
+                  {' '}- got {result.status}{result.constraint ? ` (${result.constraint})` : ''}
+                </div>
+                {result.failures.map((failure, index) => (
+                  <div key={index} className="text-red-600">{failure}</div>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
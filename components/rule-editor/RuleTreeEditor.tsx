@@ -0,0 +1,305 @@
+// Rule Tree Editor - Edit a draft ruleset; every change is applied live by the caller
+import React, { useEffect, useState } from 'react'
+import { LinkConstraint } from '@/types/common'
+import { MatchRule, Ruleset, RulesetValidationIssue } from '@/types/match-rules'
+import {
+  addRuleAt,
+  collectRuleNames,
+  createRuleName,
+  formatExpression,
+  getLevelWeight,
+  indentRuleAt,
+  moveRuleAt,
+  outdentRuleAt,
+  removeRuleAt,
+  setLevelWeight,
+  updateRuleAt
+} from '@/utils/rule-utils'
+
+interface RuleTreeEditorProps {
+  ruleset: Ruleset
+  availableFields: string[]
+  issues: RulesetValidationIssue[]
+  isDirty: boolean
+  onChange: (ruleset: Ruleset) => void
+  onCommit: () => void
+  onDiscard: () => void
+  onExport: () => void
+}
+
+interface RuleRowProps {
+  rule: MatchRule
+  path: number[]
+  siblingCount: number
+  ruleset: Ruleset
+  availableFields: string[]
+  onChange: (ruleset: Ruleset) => void
+}
+
+const levelStyles = [
+  'bg-blue-50 border-blue-200',
+  'bg-indigo-50 border-indigo-200',
+  'bg-purple-50 border-purple-200',
+  'bg-pink-50 border-pink-200',
+  'bg-gray-50 border-gray-200'
+]
+
+const weightInput = "w-12 px-1 text-[10px] font-mono bg-white border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+
+// Parses a weight input; empty or invalid input yields undefined
+const parseWeight = (value: string): number | undefined => {
+  const weight = parseFloat(value)
+  return isNaN(weight) || weight < 0 ? undefined : weight
+}
+
+// Depth of the deepest rule (1 = only top-level rules)
+const getMaxDepth = (rules: MatchRule[]): number =>
+  rules.length === 0 ? 0 : 1 + Math.max(...rules.map(rule => getMaxDepth(rule.children)))
+
+const iconButton = "px-1 text-[10px] leading-4 rounded text-gray-500 hover:bg-white hover:text-gray-800 disabled:opacity-30 disabled:hover:bg-transparent"
+
+function RuleRow({ rule, path, siblingCount, ruleset, availableFields, onChange }: RuleRowProps) {
+  const [nameInput, setNameInput] = useState(rule.name)
+  const [nameError, setNameError] = useState<string | null>(null)
+  const level = path.length - 1
+  const index = path[path.length - 1]
+
+  useEffect(() => {
+    setNameInput(rule.name)
+    setNameError(null)
+  }, [rule.name])
+
+  const commitName = () => {
+    const name = nameInput.trim()
+    if (name === rule.name) return
+    if (name === '') {
+      setNameError('Name is required')
+    } else if (collectRuleNames(ruleset).has(name)) {
+      setNameError(`"${name}" is already used`)
+    } else {
+      onChange(updateRuleAt(ruleset, path, { name }))
+    }
+  }
+
+  const toggleField = (field: string) => {
+    const fields = rule.fields.includes(field)
+      ? rule.fields.filter(f => f !== field)
+      : [...rule.fields, field]
+    onChange(updateRuleAt(ruleset, path, { fields }))
+  }
+
+  const fieldOptions = [...availableFields, ...rule.fields.filter(f => !availableFields.includes(f))]
+
+  return (
+    <div className="space-y-1">
+      <div
+        className={`p-1 rounded border text-xs ${levelStyles[Math.min(level, levelStyles.length - 1)]}`}
+        style={{ marginLeft: level * 12 }}
+      >
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={nameInput}
+            onChange={(e) => {
+              setNameInput(e.target.value)
+              setNameError(null)
+            }}
+            onBlur={commitName}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitName()
+            }}
+            className={`w-20 px-1 text-[11px] font-medium bg-white border rounded focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+              nameError ? 'border-red-400' : 'border-gray-200'
+            }`}
+            title={nameError || 'Rule name - rules sharing a name are edited together'}
+          />
+          <div className="flex-1" />
+          {path.length === 1 && (
+            <select
+              value={rule.constraint || ''}
+              onChange={(e) => onChange(updateRuleAt(ruleset, path, {
+                constraint: e.target.value === '' ? undefined : e.target.value as LinkConstraint
+              }))}
+              className="text-[10px] bg-white border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+              title="Constraint rules never add to the score: a positive must-link or negative cannot-link decides clustering"
+            >
+              <option value="">scored</option>
+              <option value="mustLink">must-link</option>
+              <option value="cannotLink">cannot-link</option>
+            </select>
+          )}
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={rule.weight ?? ''}
+            placeholder="1"
+            onChange={(e) => onChange(updateRuleAt(ruleset, path, { weight: parseWeight(e.target.value) }))}
+            className={weightInput}
+            title="Rule weight - multiplies this rule's score on top of its level weight"
+          />
+          <button className={iconButton} disabled={index === 0} onClick={() => onChange(moveRuleAt(ruleset, path, -1))} title="Move up">↑</button>
+          <button className={iconButton} disabled={index === siblingCount - 1} onClick={() => onChange(moveRuleAt(ruleset, path, 1))} title="Move down">↓</button>
+          <button className={iconButton} disabled={path.length < 2} onClick={() => onChange(outdentRuleAt(ruleset, path))} title="Move out of parent rule">←</button>
+          <button className={iconButton} disabled={index === 0} onClick={() => onChange(indentRuleAt(ruleset, path))} title="Nest under the rule above">→</button>
+          <button
+            className={iconButton}
+            disabled={!!rule.constraint}
+            onClick={() => onChange(addRuleAt(ruleset, path, { name: createRuleName(ruleset), fields: [], children: [] }))}
+            title="Add child rule"
+          >
+            +
+          </button>
+          <button
+            className={`${iconButton} hover:text-red-600`}
+            disabled={path.length === 1 && siblingCount === 1}
+            onClick={() => onChange(removeRuleAt(ruleset, path))}
+            title="Remove rule"
+          >
+            ✕
+          </button>
+        </div>
+        {nameError && <div className="text-[10px] text-red-600 mt-0.5">{nameError}</div>}
+        {rule.when && (
+          <div className="mt-1 text-[10px] text-gray-500" title="Edit conditions in the rule file">
+            when {formatExpression(rule.when)}
+          </div>
+        )}
+        {rule.match ? (
+          <div className="mt-1 text-[10px] font-mono text-gray-700" title="Edit expressions in the rule file">
+            {formatExpression(rule.match)}
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {fieldOptions.map(field => {
+              const selected = rule.fields.includes(field)
+              const inDataset = availableFields.includes(field)
+              return (
+                <button
+                  key={field}
+                  onClick={() => toggleField(field)}
+                  className={`px-1.5 rounded text-[10px] border transition-colors ${
+                    selected
+                      ? 'bg-blue-500 border-blue-500 text-white'
+                      : 'bg-white border-gray-200 text-gray-500 hover:border-blue-300'
+                  } ${inDataset ? '' : 'line-through'}`}
+                  title={inDataset ? undefined : 'Not present in the current dataset'}
+                >
+                  {field}
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </div>
+      {rule.children.map((child, childIndex) => (
+        <RuleRow
+          key={`${child.name}-${childIndex}`}
+          rule={child}
+          path={[...path, childIndex]}
+          siblingCount={rule.children.length}
+          ruleset={ruleset}
+          availableFields={availableFields}
+          onChange={onChange}
+        />
+      ))}
+    </div>
+  )
+}
+
+export function RuleTreeEditor({
+  ruleset,
+  availableFields,
+  issues,
+  isDirty,
+  onChange,
+  onCommit,
+  onDiscard,
+  onExport
+}: RuleTreeEditorProps) {
+  const levels = Array.from({ length: getMaxDepth(ruleset.rules) }, (_, i) => i + 1)
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2 px-1 pt-1 text-[10px] text-gray-600">
+        <span className="font-medium">Level weights:</span>
+        {levels.map(level => (
+          <label key={level} className="flex items-center gap-0.5">
+            L{level}
+            <input
+              type="number"
+              min={0}
+              step={0.05}
+              value={ruleset.levelWeights[level] ?? ''}
+              placeholder={String(getLevelWeight(level, ruleset))}
+              onChange={(e) => {
+                const weight = parseWeight(e.target.value)
+                if (weight !== undefined) onChange(setLevelWeight(ruleset, level, weight))
+              }}
+              className={weightInput}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="space-y-1 p-1">
+        {ruleset.rules.map((rule, index) => (
+          <RuleRow
+            key={`${rule.name}-${index}`}
+            rule={rule}
+            path={[index]}
+            siblingCount={ruleset.rules.length}
+            ruleset={ruleset}
+            availableFields={availableFields}
+            onChange={onChange}
+          />
+        ))}
+        <button
+          onClick={() => onChange(addRuleAt(ruleset, null, { name: createRuleName(ruleset), fields: [], children: [] }))}
+          className="w-full py-0.5 text-xs text-blue-600 border border-dashed border-blue-300 rounded hover:bg-blue-50"
+        >
+          + Top-level rule
+        </button>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="mx-1 p-2 bg-red-50 rounded border border-red-200 text-xs text-red-700">
+          {issues.map((issue, index) => (
+            <div key={index}>
+              {issue.path && <span className="font-mono">{issue.path}: </span>}
+              {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-1 px-1 pb-1">
+        <span className="text-[10px] text-gray-500 flex-1">
+          {isDirty ? 'Previewing uncommitted changes' : 'No changes'}
+        </span>
+        <button
+          onClick={onExport}
+          disabled={issues.length > 0}
+          className="px-2 py-0.5 text-xs bg-gray-500 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-50"
+          title="Download the edited rules as a rule file"
+        >
+          Export
+        </button>
+        <button
+          onClick={onDiscard}
+          className="px-2 py-0.5 text-xs bg-gray-500 hover:bg-gray-600 text-white rounded transition-colors"
+          title="Throw away the edits and go back to the committed rules"
+        >
+          Discard
+        </button>
+        <button
+          onClick={onCommit}
+          disabled={!isDirty || issues.length > 0}
+          className="px-2 py-0.5 text-xs bg-green-500 hover:bg-green-600 text-white rounded transition-colors disabled:opacity-50"
+          title="Make the edited rules the active ruleset"
+        >
+          Commit
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+// Ruleset Version Panel - Save named versions of the rules and diff the graphs two versions produce
+import React, { useMemo, useState } from 'react'
+import { NodeData } from '@/types/common'
+import { Ruleset, RulesetValidationIssue } from '@/types/match-rules'
+import { EdgeChangeKind, RulesetVersion, SkippedRulesetVersion } from '@/types/versioning'
+import { useRulesetDiff, NamedRuleset } from '@/hooks/useRulesetDiff'
+import { rulesetDiffToCsv } from '@/utils/diff-utils'
+import { downloadJsonFile, downloadTextFile } from '@/utils/download-utils'
+
+interface RulesetVersionPanelProps {
+  nodes: NodeData[] // Un-normalized records - each ruleset applies its own normalization
+  currentRuleset: Ruleset
+  excludedRecordIds: string[] // Records the graph leaves out of scoring - the diff leaves them out too
+  versions: RulesetVersion[]
+  skipped: SkippedRulesetVersion[] // Stored versions that no longer load
+  onSave: (name: string) => RulesetValidationIssue[] // Issues that kept the ruleset from being saved
+  onDelete: (id: string) => void
+}
+
+// Select value standing for the ruleset currently shown in the graph
+const CURRENT = 'current'
+
+const CHANGE_STYLES: Record<EdgeChangeKind, string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-gray-200 text-gray-700',
+  flipped: 'bg-red-100 text-red-700',
+  rescored: 'bg-blue-100 text-blue-700'
+}
+
+const formatScore = (score: number | null) => (score === null ? '—' : score.toFixed(2))
+
+const fileSafe = (name: string) => name.replace(/[^a-z0-9-_]+/gi, '_')
+
+function resolveSelection(id: string, versions: RulesetVersion[], currentRuleset: Ruleset): NamedRuleset | null {
+  if (id === CURRENT) return { name: 'Current', ruleset: currentRuleset }
+  const version = versions.find(v => v.id === id)
+  return version ? { name: version.name, ruleset: version.ruleset } : null
+}
+
+export function RulesetVersionPanel({ nodes, currentRuleset, excludedRecordIds, versions, skipped, onSave, onDelete }: RulesetVersionPanelProps) {
+  const [versionName, setVersionName] = useState('')
+  const [saveIssues, setSaveIssues] = useState<RulesetValidationIssue[]>([])
+  const [beforeId, setBeforeId] = useState('')
+  const [afterId, setAfterId] = useState(CURRENT)
+
+  // Memoized so the diff only re-runs when a selection or ruleset changes
+  const before = useMemo(() => resolveSelection(beforeId, versions, currentRuleset), [beforeId, versions, currentRuleset])
+  const after = useMemo(() => resolveSelection(afterId, versions, currentRuleset), [afterId, versions, currentRuleset])
+  const { diff, compare, isStale } = useRulesetDiff(nodes, before, after, excludedRecordIds)
+
+  const handleSave = () => {
+    const name = versionName.trim() || `${currentRuleset.name} v${currentRuleset.version}`
+    const issues = onSave(name)
+    setSaveIssues(issues)
+    if (issues.length === 0) setVersionName('')
+  }
+
+  const versionOptions = (
+    <>
+      <option value={CURRENT}>Current</option>
+      {versions.map(version => (
+        <option key={version.id} value={version.id}>{version.name}</option>
+      ))}
+    </>
+  )
+
+  return (
+    <div className="space-y-2 text-xs">
+      {/* Save */}
+      <div className="flex gap-1">
+        <input
+          value={versionName}
+          onChange={e => setVersionName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSave()}
+          placeholder={`${currentRuleset.name} v${currentRuleset.version}`}
+          className="flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded text-xs"
+        />
+        <button
+          onClick={handleSave}
+          className="px-2 py-0.5 text-xs bg-green-500 hover:bg-green-600 text-white rounded transition-colors"
+        >
+          Save version
+        </button>
+      </div>
+      {saveIssues.length > 0 && (
+        <div className="px-1 text-[10px] text-red-600">
+          Not saved - the rules have {saveIssues.length} issue{saveIssues.length === 1 ? '' : 's'}:
+          {saveIssues.slice(0, 3).map((issue, index) => (
+            <div key={index} className="font-mono">{issue.path || '(root)'}: {issue.message}</div>
+          ))}
+        </div>
+      )}
+
+      {/* Saved versions */}
+      {versions.length === 0 ? (
+        <div className="px-1 text-[10px] text-gray-500">No saved versions yet</div>
+      ) : (
+        <div className="space-y-0.5 max-h-24 overflow-y-auto">
+          {versions.map(version => (
+            <div key={version.id} className="flex items-center gap-1 px-1 text-[11px]">
+              <span className="flex-1 truncate">{version.name}</span>
+              <span className="text-gray-400">{new Date(version.savedAt).toLocaleString()}</span>
+              <button
+                onClick={() => onDelete(version.id)}
+                className="px-1 text-red-500 hover:text-red-700"
+                title="Delete version"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Stored versions that no longer load */}
+      {skipped.length > 0 && (
+        <div className="space-y-0.5 px-1 text-[10px] text-orange-700">
+          {skipped.map(version => (
+            <div key={version.stored.id} className="flex items-center gap-1" title={version.reason}>
+              <span className="flex-1 truncate">⚠️ &quot;{version.stored.name}&quot; no longer loads: {version.reason.split('\n')[1]?.trim() || version.reason}</span>
+              <button
+                onClick={() => onDelete(version.stored.id)}
+                className="px-1 text-red-500 hover:text-red-700"
+                title="Delete version"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Version picker */}
+      <div className="flex items-center gap-1">
+        <select value={beforeId} onChange={e => setBeforeId(e.target.value)} className="flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded text-xs">
+          <option value="">Compare…</option>
+          {versionOptions}
+        </select>
+        <span className="text-gray-400">→</span>
+        <select value={afterId} onChange={e => setAfterId(e.target.value)} className="flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded text-xs">
+          {versionOptions}
+        </select>
+        <button
+          onClick={compare}
+          disabled={!before || !after}
+          className="px-2 py-0.5 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors disabled:bg-gray-300"
+          title="Score and cluster the records under both rulesets"
+        >
+          Compare
+        </button>
+      </div>
+      {diff && isStale && (
+        <div className="px-1 text-[10px] text-orange-700">The rules or records changed - Compare again to update the diff</div>
+      )}
+
+      {diff && (
+        <div className="space-y-2">
+          {/* Summary */}
+          <div className="flex flex-wrap gap-1 text-[10px]">
+            <span className={`px-1 rounded ${CHANGE_STYLES.added}`}>+{diff.summary.added} added</span>
+            <span className={`px-1 rounded ${CHANGE_STYLES.removed}`}>−{diff.summary.removed} removed</span>
+            <span className={`px-1 rounded ${CHANGE_STYLES.flipped}`}>{diff.summary.flipped} flipped</span>
+            <span className={`px-1 rounded ${CHANGE_STYLES.rescored}`}>{diff.summary.rescored} rescored</span>
+            <span className="px-1 rounded bg-orange-100 text-orange-700">{diff.summary.recordsMoved} records moved</span>
+            <span className="px-1 rounded bg-gray-100 text-gray-600">
+              clusters {diff.summary.clustersBefore} → {diff.summary.clustersAfter}
+            </span>
+          </div>
+
+          {/* Edge changes */}
+          {diff.edges.length === 0 ? (
+            <div className="px-1 text-[10px] text-gray-500">No edge changes</div>
+          ) : (
+            <div className="max-h-40 overflow-y-auto">
+              <table className="w-full text-[10px]">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="text-left font-normal">Pair</th>
+                    <th className="text-left font-normal">Change</th>
+                    <th className="text-right font-normal">{diff.before}</th>
+                    <th className="text-right font-normal">{diff.after}</th>
+                    <th className="text-right font-normal">Δ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.edges.map(edge => (
+                    <tr key={`${edge.from}|${edge.to}`}>
+                      <td className="font-mono">{edge.from}↔{edge.to}</td>
+                      <td><span className={`px-1 rounded ${CHANGE_STYLES[edge.change]}`}>{edge.change}</span></td>
+                      <td className="text-right font-mono">{formatScore(edge.before)}</td>
+                      <td className="text-right font-mono">{formatScore(edge.after)}</td>
+                      <td className={`text-right font-mono ${edge.delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {edge.delta > 0 ? '+' : ''}{edge.delta.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Cluster changes */}
+          {diff.clusterChanges.length > 0 && (
+            <div className="space-y-0.5 max-h-32 overflow-y-auto text-[10px] text-gray-600">
+              {diff.clusterChanges.map(change => (
+                <div key={change.recordId}>
+                  <span className="font-mono font-medium">{change.recordId}</span>
+                  {change.joined.length > 0 && <span className="text-green-700"> joined {change.joined.join(', ')}</span>}
+                  {change.left.length > 0 && <span className="text-red-700"> left {change.left.join(', ')}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Export */}
+          <div className="flex gap-1">
+            <button
+              onClick={() => downloadJsonFile(`ruleset-diff-${fileSafe(diff.before)}-${fileSafe(diff.after)}.json`, diff)}
+              className="px-2 py-0.5 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => downloadTextFile(`ruleset-diff-${fileSafe(diff.before)}-${fileSafe(diff.after)}.csv`, rulesetDiffToCsv(diff), 'text/csv')}
+              className="px-2 py-0.5 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors"
+            >
+              Export CSV
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
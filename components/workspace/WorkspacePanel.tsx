@@ -0,0 +1,142 @@
+// Workspace Panel - Save the dataset and rules as a named workspace, reopen saved ones, and share them as files
+import React, { useRef, useState } from 'react'
+import { SkippedWorkspace, Workspace } from '@/types/workspace'
+
+interface WorkspacePanelProps {
+  workspaces: Workspace[]
+  skipped: SkippedWorkspace[] // Stored workspaces that no longer load
+  openWorkspaceId: string | null
+  defaultName: string // Suggested name for a new workspace
+  error: string | null // Storage problem reported by useWorkspaces
+  onSave: (name: string) => void
+  onOpen: (workspace: Workspace) => void
+  onDelete: (id: string) => void
+  onExport: (workspace: Workspace) => void
+  onImport: (file: File) => Promise<void> // Rejects when the file is not a valid workspace
+}
+
+export function WorkspacePanel({
+  workspaces,
+  skipped,
+  openWorkspaceId,
+  defaultName,
+  error,
+  onSave,
+  onOpen,
+  onDelete,
+  onExport,
+  onImport
+}: WorkspacePanelProps) {
+  const [workspaceName, setWorkspaceName] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleSave = () => {
+    onSave(workspaceName.trim() || defaultName)
+    setWorkspaceName('')
+  }
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return
+    setImportError(null)
+    onImport(file).catch(error => setImportError(error instanceof Error ? error.message : String(error)))
+  }
+
+  return (
+    <div className="p-2 border-b border-gray-200 bg-gray-50 space-y-2 text-xs">
+      {/* Save as */}
+      <div className="flex items-center gap-1">
+        <input
+          value={workspaceName}
+          onChange={e => setWorkspaceName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSave()}
+          placeholder={defaultName}
+          className="w-56 px-1 py-0.5 border border-gray-300 rounded text-xs"
+        />
+        <button
+          onClick={handleSave}
+          className="px-2 py-0.5 text-xs bg-green-500 hover:bg-green-600 text-white rounded transition-colors"
+          title="Save the records, committed rules and graph options shown now; later edits are saved automatically"
+        >
+          Save as workspace
+        </button>
+        <span className="text-xs text-gray-500 mx-1">|</span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-2 py-0.5 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors"
+        >
+          Import workspace file
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={e => {
+            handleFile(e.target.files?.[0])
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      {(error || importError) && (
+        <div className="px-2 py-1 bg-red-50 border border-red-200 rounded text-red-700 whitespace-pre-wrap">
+          {importError || error}
+        </div>
+      )}
+
+      {/* Stored workspaces that no longer load */}
+      {skipped.length > 0 && (
+        <div className="space-y-0.5 px-1 text-[10px] text-orange-700">
+          {skipped.map(workspace => (
+            <div key={workspace.stored.id} className="flex items-center gap-1" title={workspace.reason}>
+              <span className="flex-1 truncate">⚠️ &quot;{workspace.stored.name}&quot; no longer loads: {workspace.reason.split('\n')[1]?.trim() || workspace.reason}</span>
+              <button
+                onClick={() => onDelete(workspace.stored.id)}
+                className="px-1 text-red-500 hover:text-red-700"
+                title="Delete workspace"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Saved workspaces */}
+      {workspaces.length === 0 ? (
+        <div className="px-1 text-[10px] text-gray-500">No saved workspaces yet</div>
+      ) : (
+        <div className="space-y-0.5 max-h-32 overflow-y-auto">
+          {workspaces.map(workspace => {
+            const isOpen = workspace.id === openWorkspaceId
+            return (
+              <div key={workspace.id} className={`flex items-center gap-2 px-1 rounded ${isOpen ? 'bg-blue-100' : ''}`}>
+                <span className="flex-1 truncate font-medium text-gray-700">{workspace.name}</span>
+                <span className="text-gray-500">{workspace.dataset.data.length} records · {workspace.ruleset.name}</span>
+                <span className="text-gray-400">{isOpen ? 'autosaved ' : ''}{new Date(workspace.savedAt).toLocaleString()}</span>
+                <button
+                  onClick={() => onOpen(workspace)}
+                  disabled={isOpen}
+                  className="px-1 text-blue-700 underline hover:text-blue-900 disabled:no-underline disabled:text-gray-400"
+                >
+                  {isOpen ? 'Opened' : 'Open'}
+                </button>
+                <button onClick={() => onExport(workspace)} className="px-1 text-blue-700 underline hover:text-blue-900">
+                  Export
+                </button>
+                <button
+                  onClick={() => onDelete(workspace.id)}
+                  className="px-1 text-red-500 hover:text-red-700"
+                  title="Delete workspace"
+                >
+                  ×
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -24,7 +24,8 @@ export function useClustering(nodeData: NodeData[], edges: Edge[]) {
           negativeWithinCluster: 0,
           negativeBetweenClusters: 0
         },
-        constraintViolations: []
+        constraintViolations: [],
+        constraintOverrides: []
       }
     }
   }, [nodeData, edges])
@@ -0,0 +1,79 @@
+// File import hook - Reads a chosen file into a table in a Web Worker, re-reading when the options change
+import { useEffect, useRef, useState } from 'react'
+import { ImportDelimiter, ImportedTable, ImportEncoding, ImportProgress, ImportRequest, ImportResponse } from '@/types/import'
+
+export function useFileImport(file: File | null, encoding: ImportEncoding | undefined, delimiter: ImportDelimiter) {
+  const workerRef = useRef<Worker | null>(null)
+  const requestIdRef = useRef(0)
+  const handleResponseRef = useRef<(response: ImportResponse) => void>(() => {})
+
+  const [table, setTable] = useState<ImportedTable | null>(null)
+  const [progress, setProgress] = useState<ImportProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // One worker for the component's lifetime; without Worker support files are read on the main thread
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return
+    try {
+      const worker = new Worker(new URL('../workers/file-import.worker.ts', import.meta.url))
+      worker.onmessage = (event: MessageEvent<ImportResponse>) => handleResponseRef.current(event.data)
+      workerRef.current = worker
+      return () => {
+        worker.terminate()
+        workerRef.current = null
+      }
+    } catch (error) {
+      console.warn('File import worker unavailable, reading on the main thread:', error)
+    }
+  }, [])
+
+  // (Re)read whenever the file or options change; the cleanup cancels a read still in progress
+  useEffect(() => {
+    if (!file) return
+    const requestId = ++requestIdRef.current
+
+    const handleResponse = (response: ImportResponse) => {
+      if (response.requestId !== requestIdRef.current) return
+      switch (response.type) {
+        case 'progress':
+          setProgress(response.progress)
+          break
+        case 'done':
+          setTable(response.table)
+          setError(null)
+          setProgress(null)
+          break
+        case 'error':
+          setTable(null)
+          setError(response.message)
+          setProgress(null)
+          break
+      }
+    }
+    handleResponseRef.current = handleResponse
+    setProgress({ rowsRead: 0, bytesRead: 0, totalBytes: file.size })
+
+    const worker = workerRef.current
+    const options = { encoding, delimiter }
+    if (worker) {
+      worker.postMessage({ type: 'read', requestId, file, options } as ImportRequest)
+    } else {
+      // Loaded on demand - the spreadsheet and Parquet readers are large
+      import('@/workers/file-import')
+        .then(({ readImportFile }) => readImportFile(file, options, {
+          onProgress: progress => handleResponse({ type: 'progress', requestId, progress }),
+          isCancelled: () => requestIdRef.current !== requestId
+        }))
+        .then(table => {
+          if (table) handleResponse({ type: 'done', requestId, table })
+        })
+        .catch(error => handleResponse({ type: 'error', requestId, message: error instanceof Error ? error.message : String(error) }))
+    }
+
+    return () => {
+      worker?.postMessage({ type: 'cancel', requestId } as ImportRequest)
+    }
+  }, [file, encoding, delimiter])
+
+  return { table, progress, error }
+}
@@ -0,0 +1,144 @@
+// Graph pipeline hook - Runs blocking, scoring and clustering in a Web Worker, streaming edges and progress
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Edge, NodeData } from '@/types/common'
+import { CandidatePairs, Ruleset } from '@/types/match-rules'
+import { GraphHighlight } from '@/types/graph'
+import { PipelineProgress, PipelineRequest, PipelineResponse, PipelineResult, PipelineRun } from '@/types/pipeline'
+import { createEmptyClusteringResult, runGraphPipeline } from '@/workers/graph-pipeline'
+
+// Streamed edges are passed on at most this often, so large runs do not re-render per batch
+const STREAM_INTERVAL_MS = 250
+
+// Progress is only shown for runs taking longer than this, so quick re-runs do not flash the progress bar
+const PROGRESS_DELAY_MS = 200
+
+const NO_CANDIDATES: CandidatePairs = { pairs: [], keys: [] }
+
+export function useGraphPipeline(nodes: NodeData[], ruleset: Ruleset, includeNeutral: boolean, excludedRecordIds: string[]) {
+  const workerRef = useRef<Worker | null>(null)
+  const runIdRef = useRef(0)
+  const handleResponseRef = useRef<(response: PipelineResponse) => void>(() => {})
+  const lastRunRef = useRef<PipelineRun | null>(null) // Main-thread fallback only; the worker keeps its own
+
+  const [edges, setEdges] = useState<Edge[]>([])
+  const [result, setResult] = useState<PipelineResult | null>(null)
+  const [resultRunId, setResultRunId] = useState(0)
+  const [progress, setProgress] = useState<PipelineProgress | null>(null)
+  const [cancelled, setCancelled] = useState(false)
+  const [restarts, setRestarts] = useState(0)
+
+  // One worker for the component's lifetime; without Worker support runs fall back to the main thread
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return
+    try {
+      const worker = new Worker(new URL('../workers/graph-pipeline.worker.ts', import.meta.url))
+      worker.onmessage = (event: MessageEvent<PipelineResponse>) => handleResponseRef.current(event.data)
+      workerRef.current = worker
+      return () => {
+        worker.terminate()
+        workerRef.current = null
+      }
+    } catch (error) {
+      console.warn('Graph pipeline worker unavailable, running on the main thread:', error)
+    }
+  }, [])
+
+  // (Re)start whenever the inputs change; the cleanup cancels a run still in progress
+  useEffect(() => {
+    const runId = ++runIdRef.current
+    let streamed: Edge[] | null = null // Replaces the previous run's edges on the first batch, so they do not blink out
+    let lastStreamed = 0
+    const startedAt = Date.now()
+
+    const handleResponse = (response: PipelineResponse) => {
+      if (response.runId !== runIdRef.current) return
+      switch (response.type) {
+        case 'progress':
+          if (Date.now() - startedAt >= PROGRESS_DELAY_MS) setProgress(response.progress)
+          break
+        case 'edges': {
+          streamed = streamed ? streamed.concat(response.edges) : response.edges
+          const now = Date.now()
+          if (now - lastStreamed >= STREAM_INTERVAL_MS) {
+            lastStreamed = now
+            setEdges(streamed)
+          }
+          break
+        }
+        case 'done':
+          setEdges(response.result.edges)
+          setResult(response.result)
+          setResultRunId(response.runId)
+          setProgress(null)
+          break
+        case 'error':
+          console.error('Error in graph pipeline:', response.message)
+          setProgress(null)
+          break
+      }
+    }
+    handleResponseRef.current = handleResponse
+    setCancelled(false)
+
+    const worker = workerRef.current
+    const input = { nodes, ruleset, includeNeutral, excludedRecordIds }
+    if (worker) {
+      worker.postMessage({ type: 'run', runId, input } as PipelineRequest)
+    } else {
+      runGraphPipeline(input, {
+        onProgress: progress => handleResponse({ type: 'progress', runId, progress }),
+        onEdges: edges => handleResponse({ type: 'edges', runId, edges }),
+        isCancelled: () => runIdRef.current !== runId
+      }, lastRunRef.current)
+        .then(result => {
+          if (!result) return
+          lastRunRef.current = { input, result }
+          handleResponse({ type: 'done', runId, result })
+        })
+        .catch(error => handleResponse({ type: 'error', runId, message: String(error) }))
+    }
+
+    return () => {
+      worker?.postMessage({ type: 'cancel', runId } as PipelineRequest)
+    }
+  }, [nodes, ruleset, includeNeutral, excludedRecordIds, restarts])
+
+  // Stop the current run, keeping the edges streamed so far
+  const cancel = useCallback(() => {
+    workerRef.current?.postMessage({ type: 'cancel', runId: runIdRef.current } as PipelineRequest)
+    runIdRef.current++ // Drops anything the cancelled run still sends
+    setProgress(null)
+    setCancelled(true)
+  }, [])
+
+  const restart = useCallback(() => setRestarts(count => count + 1), [])
+
+  // Clustering uses scored edges only; the graph also draws neutral ones, first so they sit behind the rest
+  const { scoredEdges, unifiedEdges } = useMemo(() => {
+    const scored = edges.filter(edge => edge.type !== 'neutral')
+    const neutral = edges.filter(edge => edge.type === 'neutral')
+    return { scoredEdges: scored, unifiedEdges: [...neutral, ...scored] }
+  }, [edges])
+
+  const clusteringResult = useMemo(() => result?.clusteringResult || createEmptyClusteringResult(), [result])
+
+  // What the last incremental run changed, for the graph to animate
+  const highlight = useMemo<GraphHighlight | null>(() => {
+    const changes = result?.changes
+    if (!changes || (changes.nodeIds.length === 0 && changes.edgeKeys.length === 0)) return null
+    return { id: resultRunId, nodeIds: new Set(changes.nodeIds), edgeKeys: new Set(changes.edgeKeys) }
+  }, [result, resultRunId])
+
+  return {
+    edges: scoredEdges,
+    unifiedEdges,
+    candidates: result?.candidates || NO_CANDIDATES,
+    blockingStats: result?.blockingStats || null,
+    clusteringResult,
+    highlight,
+    progress,
+    cancelled,
+    cancel,
+    restart
+  }
+}
@@ -1,28 +1,29 @@
 // Hook for match score calculations
 import { useMemo } from 'react'
 import { NodeData, Edge, UnifiedEdge } from '@/types/common'
+import { Ruleset } from '@/types/match-rules'
 import { calculateEdges, createUnifiedEdges } from '@/components/match-score/MatchScoreCalculator'
 
-export function useMatchScore(nodeData: NodeData[]) {
+export function useMatchScore(nodeData: NodeData[], ruleset: Ruleset) {
   // Generate overall edges based on rule evaluation precedence
   const edges = useMemo(() => {
     try {
-      return calculateEdges(nodeData)
+      return calculateEdges(nodeData, ruleset)
     } catch (error) {
       console.error('Error generating edges:', error)
       return []
     }
-  }, [nodeData])
+  }, [nodeData, ruleset])
 
   // Create unified edges that combine positive and negative relationships
   const unifiedEdges = useMemo(() => {
     try {
-      return createUnifiedEdges(edges, nodeData)
+      return createUnifiedEdges(edges, nodeData, ruleset)
     } catch (error) {
       console.error('Error creating unified edges:', error)
       return []
     }
-  }, [edges, nodeData])
+  }, [edges, nodeData, ruleset])
 
   return {
     edges,
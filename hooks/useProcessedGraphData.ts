@@ -1,15 +1,25 @@
 // Unified hook that manages the complete data flow: Raw Data → Match → Clustering → Final Display
 import { useMemo, useState, useEffect } from 'react'
 import { NodeData, Edge, DataRecord, DataExample } from '@/types/common'
-import { calculateEdges } from '@/components/match-score/MatchScoreCalculator'
-import { performAdvancedClustering, defaultClusteringConfig } from '@/components/clustering/ClusteringAlgorithm'
+import { Ruleset } from '@/types/match-rules'
+import { DatasetSchema } from '@/types/schema'
+import { normalizeNodes } from '@/utils/normalization-utils'
+import { getSchemaFields, recordToNode } from '@/utils/schema-utils'
+import { useGraphPipeline } from '@/hooks/useGraphPipeline'
+
+// Stable default, so the pipeline does not re-run on every render
+const NO_RECORDS: string[] = []
 
 export function useProcessedGraphData(
   currentData: DataRecord[],
+  schema: DatasetSchema,
+  ruleset: Ruleset,
   selectedDataExample: number,
   graphHeight: number,
   leftPanelWidth: number,
-  rightPanelWidth: number
+  rightPanelWidth: number,
+  showNeutralEdges: boolean = false,
+  excludedRecordIds: string[] = NO_RECORDS // Records left out of scoring
 ) {
   // State for responsive layout
   const [windowSize, setWindowSize] = useState({ width: 1200, height: 800 })
@@ -35,29 +45,27 @@ export function useProcessedGraphData(
     }
   }, [])
 
-  // Step 1: Create basic nodes from raw data
+  // Step 1: Create basic nodes from raw data - one field per schema column
   const basicNodes = useMemo(() => {
     if (!currentData || currentData.length === 0) return []
     
-    const transformedNodes = currentData.map((record: any, index: number) => ({
-      recordId: record["Record-Id"] || `record-${index}`,
-      salutation: record["Salutation"] || "",
-      firstName: record["First Name"] || "",
-      lastName: record["Last Name"] || "",
-      email: record["Email"] || "",
-      phone: record["Phone"] || "",
-      party: record["Party"] || "",
-      addressLine1: record["Address Line 1"] || "",
-      city: record["City"] || "",
-      country: record["Country"] || "",
-      x: 0, // Will be calculated in final step
-      y: 0, // Will be calculated in final step
-    }))
-    
+    return currentData.map((record, index) => recordToNode(record, schema, index))
+  }, [currentData, schema])
 
-    
-    return transformedNodes
-  }, [currentData])
+  // Record fields that carry data in this dataset - the fields rules can usefully compare
+  const availableFields = useMemo(() => {
+    return getSchemaFields(schema).filter(field => basicNodes.some(node => node[field]))
+  }, [basicNodes, schema])
+
+  // Step 1b: Normalize field values so rules compare canonical forms (raw values are kept on each node)
+  const normalizedNodes = useMemo(() => {
+    try {
+      return normalizeNodes(basicNodes, ruleset.normalization, ruleset.missingValues)
+    } catch (error) {
+      console.error('Error normalizing nodes:', error)
+      return basicNodes
+    }
+  }, [basicNodes, ruleset.normalization, ruleset.missingValues])
 
   // Step 2: Calculate layout dimensions
   const layout = useMemo(() => {
@@ -76,63 +84,19 @@ export function useProcessedGraphData(
     }
   }, [graphHeight, leftPanelWidth, rightPanelWidth, windowSize])
 
-  // Step 3: Evaluate matches and create edges
-  const { edges, unifiedEdges } = useMemo(() => {
-    if (basicNodes.length === 0) return { edges: [], unifiedEdges: [] }
-    
-    try {
-      const calculatedEdges = calculateEdges(basicNodes)
-      // For now, unifiedEdges is the same as edges (can be enhanced later)
-      return { edges: calculatedEdges, unifiedEdges: calculatedEdges }
-    } catch (error) {
-      console.error('Error calculating edges:', error)
-      return { edges: [], unifiedEdges: [] }
-    }
-  }, [basicNodes])
-
-  // Step 4: Perform clustering
-  const clusteringResult = useMemo(() => {
-    if (basicNodes.length === 0 || edges.length === 0) {
-      return {
-        assignments: new Map<string, number>(),
-        clusterGroups: new Map<number, Set<string>>(),
-        qualityMetrics: {
-          totalNodes: 0,
-          totalClusters: 0,
-          positiveIntraClusterRatio: 0,
-          negativeInterClusterRatio: 0,
-          constraintViolations: 0,
-          positiveWithinCluster: 0,
-          positiveBetweenClusters: 0,
-          negativeWithinCluster: 0,
-          negativeBetweenClusters: 0
-        },
-        constraintViolations: []
-      }
-    }
-    
-    try {
-      return performAdvancedClustering(basicNodes, edges, defaultClusteringConfig)
-    } catch (error) {
-      console.error('Error performing clustering:', error)
-      return {
-        assignments: new Map<string, number>(),
-        clusterGroups: new Map<number, Set<string>>(),
-        qualityMetrics: {
-          totalNodes: 0,
-          totalClusters: 0,
-          positiveIntraClusterRatio: 0,
-          negativeInterClusterRatio: 0,
-          constraintViolations: 0,
-          positiveWithinCluster: 0,
-          positiveBetweenClusters: 0,
-          negativeWithinCluster: 0,
-          negativeBetweenClusters: 0
-        },
-        constraintViolations: []
-      }
-    }
-  }, [basicNodes, edges])
+  // Steps 3-4: Blocking, match scoring and clustering run in a Web Worker - edges stream in while it works
+  const {
+    edges,
+    unifiedEdges,
+    candidates,
+    blockingStats,
+    clusteringResult,
+    progress,
+    highlight,
+    cancelled,
+    cancel,
+    restart
+  } = useGraphPipeline(normalizedNodes, ruleset, showNeutralEdges, excludedRecordIds)
 
   // Step 5: Create final display nodes with positions, clusters, and colors
   const finalDisplayNodes = useMemo(() => {
@@ -146,7 +110,7 @@ export function useProcessedGraphData(
     const usedX = new Set<number>()
     const usedY = new Set<number>()
     
-    return basicNodes.map((node, index) => {
+    return normalizedNodes.map((node, index) => {
       // Get cluster assignment
       const clusterId = clusteringResult.assignments.get(node.recordId)
       
@@ -280,7 +244,7 @@ export function useProcessedGraphData(
         clusterId: clusterId !== undefined ? clusterId : -1
       }
     })
-  }, [basicNodes, clusteringResult.assignments, layout])
+  }, [basicNodes, normalizedNodes, clusteringResult.assignments, layout])
 
   // Debug logging for clustering
   useEffect(() => {
@@ -336,6 +300,17 @@ export function useProcessedGraphData(
     unifiedEdges,
     layout,
     
+    // Blocking (for UI panels)
+    candidates,
+    blockingStats,
+    
+    // Pipeline progress - null when idle
+    progress,
+    highlight,
+    cancelled,
+    cancel,
+    restart,
+    
     // Clustering results (for UI panels)
     clusteringResult,
     uniqueClusterIds,
@@ -343,6 +318,7 @@ export function useProcessedGraphData(
     
     // Raw data (for debugging/development)
     basicNodes,
+    availableFields,
     nodeClusters: clusteringResult.assignments,
     detectConstraintViolations: clusteringResult.constraintViolations
   }
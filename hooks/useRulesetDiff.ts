@@ -0,0 +1,67 @@
+// Hook that runs the match → clustering pipeline under two rulesets and diffs the results, when asked to
+import { useCallback, useMemo, useState } from 'react'
+import { NodeData } from '@/types/common'
+import { Ruleset } from '@/types/match-rules'
+import { RulesetDiff } from '@/types/versioning'
+import { calculateEdges } from '@/components/match-score/MatchScoreCalculator'
+import { performAdvancedClustering, defaultClusteringConfig } from '@/components/clustering/ClusteringAlgorithm'
+import { normalizeNodes } from '@/utils/normalization-utils'
+import { diffRulesetRuns, RulesetRun } from '@/utils/diff-utils'
+
+export interface NamedRuleset {
+  name: string
+  ruleset: Ruleset
+}
+
+// What a diff was worked out from - kept to tell when the diff shown no longer matches the selection
+interface DiffInput {
+  nodes: NodeData[]
+  before: NamedRuleset
+  after: NamedRuleset
+  excludedRecordIds: string[]
+}
+
+// Same steps as useProcessedGraphData: normalize with the ruleset's own steps, score (skipping the records the
+// graph skips), cluster
+function runPipeline(nodes: NodeData[], { name, ruleset }: NamedRuleset, exclude: Set<string>): RulesetRun {
+  const normalizedNodes = normalizeNodes(nodes, ruleset.normalization, ruleset.missingValues)
+  const edges = calculateEdges(normalizedNodes, ruleset, { exclude })
+  const { assignments } = performAdvancedClustering(normalizedNodes, edges, defaultClusteringConfig)
+  return { name, edges, assignments }
+}
+
+// Two full pipeline runs on the main thread - so the diff is only worked out on compare(), never on every edit
+export function useRulesetDiff(
+  nodes: NodeData[],
+  before: NamedRuleset | null,
+  after: NamedRuleset | null,
+  excludedRecordIds: string[]
+) {
+  const [compared, setCompared] = useState<DiffInput | null>(null)
+
+  const diff = useMemo((): RulesetDiff | null => {
+    if (!compared || compared.nodes.length === 0) return null
+
+    try {
+      const exclude = new Set(compared.excludedRecordIds)
+      return diffRulesetRuns(runPipeline(compared.nodes, compared.before, exclude), runPipeline(compared.nodes, compared.after, exclude))
+    } catch (error) {
+      console.error('Error diffing rulesets:', error)
+      return null
+    }
+  }, [compared])
+
+  const compare = useCallback(() => {
+    setCompared(before && after ? { nodes, before, after, excludedRecordIds } : null)
+  }, [nodes, before, after, excludedRecordIds])
+
+  // The records, rulesets or skipped records changed since the diff was worked out
+  const isStale = compared !== null && (
+    compared.nodes !== nodes ||
+    compared.before.ruleset !== before?.ruleset ||
+    compared.after.ruleset !== after?.ruleset ||
+    compared.excludedRecordIds !== excludedRecordIds
+  )
+
+  return { diff, compare, isStale }
+}
@@ -0,0 +1,90 @@
+// Hook for named ruleset versions, kept in the browser's localStorage
+import { useCallback, useEffect, useState } from 'react'
+import { Ruleset, RulesetValidationIssue } from '@/types/match-rules'
+import { RulesetVersion, SkippedRulesetVersion, StoredRulesetVersion } from '@/types/versioning'
+import { DEFAULT_RULE_FIELDS, loadRuleset, serializeRuleset, validateRuleset } from '@/utils/rule-utils'
+
+const STORAGE_KEY = 'graph-explorer.ruleset-versions'
+
+// Read stored versions, setting aside any that no longer pass validation against the fields they were saved with
+function readVersions(): { versions: RulesetVersion[]; skipped: SkippedRulesetVersion[] } {
+  const skipped: SkippedRulesetVersion[] = []
+  try {
+    const stored: StoredRulesetVersion[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    const versions = stored.flatMap(version => {
+      const fields = version.fields || DEFAULT_RULE_FIELDS
+      try {
+        return [{ id: version.id, name: version.name, savedAt: version.savedAt, ruleset: loadRuleset(version.definition, fields), fields }]
+      } catch (error) {
+        console.warn(`Skipping stored ruleset version "${version.name}":`, error)
+        skipped.push({ stored: version, reason: error instanceof Error ? error.message : String(error) })
+        return []
+      }
+    })
+    return { versions, skipped }
+  } catch (error) {
+    console.error('Error reading ruleset versions:', error)
+    return { versions: [], skipped }
+  }
+}
+
+// Skipped versions are written back as they were, so a version is never lost without being deleted
+function writeVersions(versions: RulesetVersion[], skipped: SkippedRulesetVersion[]) {
+  const stored: StoredRulesetVersion[] = versions.map(version => ({
+    id: version.id,
+    name: version.name,
+    savedAt: version.savedAt,
+    definition: serializeRuleset(version.ruleset),
+    fields: version.fields
+  }))
+  stored.push(...skipped.map(version => version.stored))
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+  } catch (error) {
+    console.error('Error saving ruleset versions:', error)
+  }
+}
+
+export function useRulesetVersions() {
+  const [state, setState] = useState<{ versions: RulesetVersion[]; skipped: SkippedRulesetVersion[] }>({ versions: [], skipped: [] })
+
+  // localStorage only exists in the browser - load after mount
+  useEffect(() => {
+    setState(readVersions())
+  }, [])
+
+  // Saves the ruleset if it is valid for the given fields; returns the issues that kept it from being saved
+  const saveVersion = useCallback((name: string, ruleset: Ruleset, fields: string[]): RulesetValidationIssue[] => {
+    const issues = validateRuleset(serializeRuleset(ruleset), fields)
+    if (issues.length > 0) return issues
+
+    setState(current => {
+      const versions = [
+        ...current.versions,
+        { id: `${Date.now()}-${current.versions.length}`, name, savedAt: new Date().toISOString(), ruleset, fields }
+      ]
+      writeVersions(versions, current.skipped)
+      return { ...current, versions }
+    })
+    return []
+  }, [])
+
+  // Deletes a version, or a stored version that was skipped
+  const deleteVersion = useCallback((id: string) => {
+    setState(current => {
+      const next = {
+        versions: current.versions.filter(version => version.id !== id),
+        skipped: current.skipped.filter(version => version.stored.id !== id)
+      }
+      writeVersions(next.versions, next.skipped)
+      return next
+    })
+  }, [])
+
+  return {
+    versions: state.versions,
+    skipped: state.skipped,
+    saveVersion,
+    deleteVersion
+  }
+}
@@ -0,0 +1,153 @@
+// Hook for named workspaces, kept in the browser's IndexedDB and autosaved while open
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { SkippedWorkspace, StoredWorkspace, Workspace } from '@/types/workspace'
+import { loadStoredWorkspace, toStoredWorkspace } from '@/utils/workspace-utils'
+
+const DATABASE_NAME = 'graph-explorer'
+const DATABASE_VERSION = 1
+const STORE_NAME = 'workspaces'
+
+// Edits are saved once they pause for this long, not on every keystroke
+const AUTOSAVE_DELAY_MS = 1000
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+// One connection for the page; a failed open is retried on the next call
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+// Run one request against the workspace store, resolving once its transaction has committed
+async function runRequest<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode)
+    const request = makeRequest(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Read stored workspaces, most recently saved first, setting aside any that no longer pass validation
+async function readWorkspaces(): Promise<{ workspaces: Workspace[]; skipped: SkippedWorkspace[] }> {
+  const stored = await runRequest<StoredWorkspace[]>('readonly', store => store.getAll())
+  const skipped: SkippedWorkspace[] = []
+  const workspaces = stored
+    .flatMap(workspace => {
+      try {
+        return [loadStoredWorkspace(workspace)]
+      } catch (error) {
+        console.warn(`Skipping stored workspace "${workspace.name}":`, error)
+        skipped.push({ stored: workspace, reason: error instanceof Error ? error.message : String(error) })
+        return []
+      }
+    })
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+  return { workspaces, skipped }
+}
+
+// Workspace content without the save time, to tell whether anything changed since the last save
+const contentKey = (workspace: Workspace) => JSON.stringify({ ...toStoredWorkspace(workspace), savedAt: '' })
+
+export function useWorkspaces(openWorkspace: Workspace | null) {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [skipped, setSkipped] = useState<SkippedWorkspace[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // Autosave state read from timers and effects: the saved workspaces, and the open one while it has unsaved changes
+  const workspacesRef = useRef<Workspace[]>([])
+  workspacesRef.current = workspaces
+  const pendingRef = useRef<Workspace | null>(null)
+
+  // IndexedDB only exists in the browser - load after mount
+  useEffect(() => {
+    if (typeof indexedDB === 'undefined') {
+      setError('Workspaces need a browser with IndexedDB')
+      return
+    }
+    readWorkspaces()
+      .then(stored => {
+        setWorkspaces(stored.workspaces)
+        setSkipped(stored.skipped)
+      })
+      .catch(error => {
+        console.error('Error reading workspaces:', error)
+        setError('Could not read the saved workspaces')
+      })
+  }, [])
+
+  // Saves (or overwrites) a workspace, stamped with the current time; resolves to what was saved.
+  // A workspace that would not load back (e.g. its rules are invalid) is not saved.
+  const saveWorkspace = useCallback(async (workspace: Workspace) => {
+    const saved = { ...workspace, savedAt: new Date().toISOString() }
+    const stored = toStoredWorkspace(saved)
+    try {
+      loadStoredWorkspace(stored)
+      await runRequest('readwrite', store => store.put(stored))
+    } catch (error) {
+      console.error('Error saving workspace:', error)
+      setError(`Could not save workspace "${workspace.name}": ${error instanceof Error ? error.message : String(error)}`)
+      throw error
+    }
+    setError(null)
+    setWorkspaces(current => [saved, ...current.filter(w => w.id !== saved.id)])
+    return saved
+  }, [])
+
+  // Deletes a workspace, or a stored workspace that was skipped
+  const deleteWorkspace = useCallback(async (id: string) => {
+    if (pendingRef.current?.id === id) pendingRef.current = null
+    try {
+      await runRequest('readwrite', store => store.delete(id))
+    } catch (error) {
+      console.error('Error deleting workspace:', error)
+      setError('Could not delete the workspace')
+      return
+    }
+    setWorkspaces(current => current.filter(workspace => workspace.id !== id))
+    setSkipped(current => current.filter(workspace => workspace.stored.id !== id))
+  }, [])
+
+  // Saves the pending changes of the open workspace, unless nothing changed since its last save
+  const flush = useCallback(() => {
+    const workspace = pendingRef.current
+    pendingRef.current = null
+    if (!workspace) return
+    const saved = workspacesRef.current.find(w => w.id === workspace.id)
+    if (saved && contentKey(saved) === contentKey(workspace)) return
+    saveWorkspace(workspace).catch(() => {})
+  }, [saveWorkspace])
+
+  // Autosave the open workspace once its records, rules or settings stop changing
+  useEffect(() => {
+    if (!openWorkspace) return
+    pendingRef.current = openWorkspace
+    const timer = setTimeout(flush, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [openWorkspace, flush])
+
+  // Closing the workspace (or switching to another) saves what is still pending right away
+  useEffect(() => {
+    if (pendingRef.current && pendingRef.current.id !== openWorkspace?.id) flush()
+  }, [openWorkspace, flush])
+
+  return {
+    workspaces,
+    skipped,
+    error,
+    saveWorkspace,
+    deleteWorkspace
+  }
+}
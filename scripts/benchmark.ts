@@ -0,0 +1,112 @@
+// Times blocking, scoring and clustering on synthetic datasets with known duplicates
+// Usage: npm run bench [-- 1000 10000 100000]   (record counts, default 1k / 10k / 100k)
+import fs from 'fs'
+import path from 'path'
+import { NodeData } from '@/types/common'
+import { Ruleset } from '@/types/match-rules'
+import { loadRulesetFromText } from '@/utils/rule-utils'
+import { normalizeNodes } from '@/utils/normalization-utils'
+import { createEdgeIndex } from '@/utils/edge-index-utils'
+import { calculateCandidatePairs } from '@/components/match-score/CandidateGenerator'
+import { calculateEdges } from '@/components/match-score/MatchScoreCalculator'
+import { performAdvancedClustering } from '@/components/clustering/ClusteringAlgorithm'
+
+const DEFAULT_SIZES = [1000, 10000, 100000]
+
+// Used when the rule file has no blocking - all pairs of 100k records would never finish
+const BENCHMARK_BLOCKING: Ruleset['blocking'] = {
+  keys: [
+    { type: 'exact', fields: ['email'] },
+    { type: 'exact', fields: ['phone'], suffix: 7 },
+    { type: 'exact', fields: ['lastName', 'firstName'] }
+  ]
+}
+
+const FIRST_NAMES = ['James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda', 'David', 'Elizabeth',
+  'William', 'Barbara', 'Richard', 'Susan', 'Joseph', 'Jessica', 'Thomas', 'Sarah', 'Charles', 'Karen', 'Daniel', 'Nancy',
+  'Matthew', 'Lisa', 'Anthony', 'Betty', 'Mark', 'Margaret', 'Donald', 'Sandra', 'Steven', 'Ashley', 'Paul', 'Kimberly']
+const SALUTATIONS = ['Mr.', 'Ms.', 'Mrs.', 'Dr.', '']
+
+// Seeded so every run benchmarks the same data
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// About two records per person; duplicates drop or mistype a field now and then
+function generateRecords(count: number): NodeData[] {
+  const random = createRandom(count)
+  const pick = <T>(values: T[]) => values[Math.floor(random() * values.length)]
+  const people = Math.ceil(count / 2)
+  const lastNames = Math.max(50, Math.floor(count / 8))
+
+  return Array.from({ length: count }, (_, i) => {
+    const person = Math.floor(random() * people)
+    const personRandom = createRandom(person + 1)
+    const firstName = FIRST_NAMES[Math.floor(personRandom() * FIRST_NAMES.length)]
+    const lastName = `Surname${Math.floor(personRandom() * lastNames)}`
+    const phone = `555${String(Math.floor(personRandom() * 1e7)).padStart(7, '0')}`
+    const salutation = pick(SALUTATIONS)
+    return {
+      recordId: `R${i + 1}`,
+      salutation,
+      firstName: random() < 0.1 ? firstName.slice(0, -1) : firstName,
+      lastName,
+      email: random() < 0.2 ? '' : `${firstName}.${lastName}${person}@example.com`.toLowerCase(),
+      phone: random() < 0.3 ? '' : phone,
+      party: '',
+      addressLine1: '',
+      city: '',
+      country: '',
+      x: 0,
+      y: 0
+    }
+  })
+}
+
+function time<T>(run: () => T): [T, number] {
+  const start = performance.now()
+  const result = run()
+  return [result, performance.now() - start]
+}
+
+function benchmark(count: number, ruleset: Ruleset) {
+  const nodes = normalizeNodes(generateRecords(count), ruleset.normalization)
+  const [candidates, blockingMs] = time(() => calculateCandidatePairs(nodes, ruleset.blocking))
+  const [edges, scoringMs] = time(() => calculateEdges(nodes, ruleset, { candidates }))
+  const [, indexMs] = time(() => createEdgeIndex(edges))
+  const [clustering, clusteringMs] = time(() => performAdvancedClustering(nodes, edges))
+  return {
+    count,
+    pairs: candidates.pairs.length,
+    edges: edges.length,
+    clusters: clustering.clusterGroups.size,
+    blockingMs,
+    scoringMs,
+    indexMs,
+    clusteringMs
+  }
+}
+
+function main() {
+  const sizes = process.argv.slice(2).map(Number).filter(size => size > 0)
+  const rulesPath = path.resolve(process.cwd(), 'match-rules.json')
+  const rules = loadRulesetFromText(fs.readFileSync(rulesPath, 'utf8'), rulesPath)
+  const ruleset = rules.blocking.keys.length > 0 ? rules : { ...rules, blocking: BENCHMARK_BLOCKING }
+
+  console.log(`⏱️  Benchmarking ${path.relative(process.cwd(), rulesPath)} on synthetic records`)
+  for (const count of sizes.length > 0 ? sizes : DEFAULT_SIZES) {
+    const result = benchmark(count, ruleset)
+    const ms = (value: number) => `${Math.round(value)} ms`
+    console.log('')
+    console.log(`${count.toLocaleString()} records - ${result.pairs.toLocaleString()} candidate pairs, ${result.edges.toLocaleString()} edges, ${result.clusters.toLocaleString()} clusters`)
+    console.log(`   blocking ${ms(result.blockingMs)}, scoring ${ms(result.scoringMs)}, edge index ${ms(result.indexMs)}, clustering ${ms(result.clusteringMs)}`)
+    console.log(`   total ${ms(result.blockingMs + result.scoringMs + result.indexMs + result.clusteringMs)}, heap ${Math.round(process.memoryUsage().heapUsed / 1048576)} MB`)
+  }
+}
+
+main()
@@ -0,0 +1,152 @@
+// Checks how imported files are parsed and mapped onto the dataset schema, exiting non-zero if any check fails
+// Usage: npm run test:import
+import { ImportedTable } from '@/types/import'
+import { createImportedExample, IMPORT_ID_TARGET, parseDelimitedText, suggestColumnMapping } from '@/utils/import-utils'
+import { DEFAULT_ID_COLUMN } from '@/utils/schema-utils'
+
+interface ImportTestCase {
+  name: string
+  run: () => string[] // One message per unmet expectation
+}
+
+const parse = (text: string, delimiter?: Parameters<typeof parseDelimitedText>[3]) =>
+  parseDelimitedText(text, 'test.csv', 'utf-8', delimiter)
+
+// Message when actual differs from expected, compared as JSON
+function expectEqual(what: string, actual: unknown, expected: unknown): string[] {
+  return JSON.stringify(actual) === JSON.stringify(expected)
+    ? []
+    : [`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`]
+}
+
+const TESTS: ImportTestCase[] = [
+  {
+    name: 'Comma-delimited file',
+    run: () => {
+      const table = parse('id,First Name,Email\n1,Ann,ann@example.com\n2,Bob,bob@example.com\n')
+      return [
+        ...expectEqual('delimiter', table.delimiter, ','),
+        ...expectEqual('headers', table.headers, ['id', 'First Name', 'Email']),
+        ...expectEqual('rows', table.rows, [['1', 'Ann', 'ann@example.com'], ['2', 'Bob', 'bob@example.com']])
+      ]
+    }
+  },
+  {
+    name: 'Tab, semicolon and pipe delimiters are detected',
+    run: () => [
+      ...expectEqual('tab', parse('a\tb\n1\t2\n').delimiter, '\t'),
+      ...expectEqual('semicolon', parse('a;b\n1;2\n').delimiter, ';'),
+      ...expectEqual('pipe', parse('a|b\n1|2\n').delimiter, '|')
+    ]
+  },
+  {
+    name: 'A short row does not change the detected delimiter',
+    run: () => {
+      const table = parse('a;b\n1;2\n3\n')
+      return [
+        ...expectEqual('delimiter', table.delimiter, ';'),
+        ...expectEqual('headers', table.headers, ['a', 'b']),
+        ...expectEqual('rows', table.rows, [['1', '2']]),
+        ...expectEqual('rejected rows', table.rejects.map(reject => reject.row), [3])
+      ]
+    }
+  },
+  {
+    name: 'Commas inside values of a semicolon file',
+    run: () => {
+      const table = parse('name;city\nSmith, Ann;Paris\nDoe, Bob;Rome\n')
+      return [
+        ...expectEqual('delimiter', table.delimiter, ';'),
+        ...expectEqual('rows', table.rows, [['Smith, Ann', 'Paris'], ['Doe, Bob', 'Rome']])
+      ]
+    }
+  },
+  {
+    name: 'Rows with the wrong number of cells are rejected',
+    run: () => {
+      const table = parse('id,name,city\n1,Ann,Paris\n2,Bob\n3,Cy,Rome,extra\n\n4,Di,Oslo\n')
+      return [
+        ...expectEqual('rows', table.rows.map(row => row[0]), ['1', '4']),
+        ...expectEqual('rejects', table.rejects, [
+          { row: 3, reason: '2 cells, expected 3', raw: '2,Bob' },
+          { row: 4, reason: '4 cells, expected 3', raw: '3,Cy,Rome,extra' }
+        ])
+      ]
+    }
+  },
+  {
+    name: 'A chosen delimiter overrides detection',
+    run: () => {
+      const table = parse('a;b\n1;2\n', ',')
+      return [
+        ...expectEqual('delimiter', table.delimiter, ','),
+        ...expectEqual('headers', table.headers, ['a;b'])
+      ]
+    }
+  },
+  {
+    name: 'Headers are mapped onto known columns, misspelled ones too',
+    run: () => expectEqual('mapping', suggestColumnMapping(['ID', 'UUDI', 'first_name', 'E-mail', 'Loyalty Tier']), [
+      { source: 'ID', target: IMPORT_ID_TARGET },
+      { source: 'UUDI', target: 'uuid' },
+      { source: 'first_name', target: 'firstName' },
+      { source: 'E-mail', target: 'email' },
+      { source: 'Loyalty Tier', target: 'loyaltyTier' }
+    ])
+  },
+  {
+    name: 'No mapping target is used twice',
+    run: () => expectEqual('targets', suggestColumnMapping(['id', 'Record ID', 'Email', 'email']).map(mapping => mapping.target), [
+      IMPORT_ID_TARGET,
+      'recordId',
+      'email',
+      'email2'
+    ])
+  },
+  {
+    name: 'Imported records use the mapped columns and unique IDs',
+    run: () => {
+      const table: ImportedTable = {
+        fileName: 'test.csv',
+        format: 'csv',
+        encoding: 'utf-8',
+        delimiter: ',',
+        headers: ['ID', 'UUDI', 'Notes'],
+        rows: [['7', 'u-1', 'skip me'], ['7', 'u-2', ''], ['', 'u-3', '']],
+        rejects: []
+      }
+      const example = createImportedExample(table, [
+        { source: 'ID', target: IMPORT_ID_TARGET },
+        { source: 'UUDI', target: 'uuid' },
+        { source: 'Notes', target: '' }
+      ], 'Test')
+      return [
+        ...expectEqual('columns', example.schema?.columns, [{ name: 'UUID', field: 'uuid', label: 'UUID', type: 'id' }]),
+        ...expectEqual('records', example.data, [
+          { [DEFAULT_ID_COLUMN]: '7', UUID: 'u-1' },
+          { [DEFAULT_ID_COLUMN]: '7-2', UUID: 'u-2' },
+          { [DEFAULT_ID_COLUMN]: 'row-3', UUID: 'u-3' }
+        ])
+      ]
+    }
+  }
+]
+
+function main() {
+  console.log('🧪 Running import tests')
+  let failed = 0
+  for (const test of TESTS) {
+    const failures = test.run()
+    if (failures.length > 0) failed++
+    console.log(`${failures.length === 0 ? '✅' : '❌'} ${test.name}`)
+    for (const failure of failures) {
+      console.log(`     ${failure}`)
+    }
+  }
+
+  console.log('')
+  console.log(`${TESTS.length - failed} passed, ${failed} failed`)
+  if (failed > 0) process.exitCode = 1
+}
+
+main()
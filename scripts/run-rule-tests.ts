@@ -0,0 +1,42 @@
+// Runs the labeled test pairs of a rule file and exits non-zero if any fail
+// Usage: npm run test:rules [-- path/to/rules.json|yaml]
+import fs from 'fs'
+import path from 'path'
+import { loadRulesetFromText, RulesetValidationError } from '@/utils/rule-utils'
+import { runRuleTests } from '@/components/match-score/RuleTestRunner'
+
+function main() {
+  const rulesPath = path.resolve(process.cwd(), process.argv[2] || 'match-rules.json')
+  console.log(`🧪 Running rule tests from ${path.relative(process.cwd(), rulesPath)}`)
+
+  let ruleset
+  try {
+    ruleset = loadRulesetFromText(fs.readFileSync(rulesPath, 'utf8'), rulesPath)
+  } catch (error) {
+    console.error(error instanceof RulesetValidationError ? error.message : `Could not read rules: ${error}`)
+    process.exitCode = 1
+    return
+  }
+
+  if (ruleset.tests.length === 0) {
+    console.log('No tests defined in this rule file')
+    return
+  }
+
+  const results = runRuleTests(ruleset)
+  for (const result of results) {
+    // A constraint overrides the score, so it is shown first for tests that expect one
+    const constraint = result.test.expect.constraint !== undefined ? `constraint ${result.constraint ?? 'none'}, ` : ''
+    console.log(`${result.passed ? '✅' : '❌'} ${result.test.name} - ${constraint}${result.status}, score ${result.score}`)
+    for (const failure of result.failures) {
+      console.log(`     ${failure}`)
+    }
+  }
+
+  const failed = results.filter(result => !result.passed).length
+  console.log('')
+  console.log(`${results.length - failed} passed, ${failed} failed`)
+  if (failed > 0) process.exitCode = 1
+}
+
+main()
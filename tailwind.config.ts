@@ -83,11 +83,20 @@ const config: Config = {
   				to: {
   					height: '0'
   				}
+  			},
+  			'graph-flash': {
+  				'0%, 50%': {
+  					opacity: '0.9'
+  				},
+  				'100%': {
+  					opacity: '0'
+  				}
   			}
   		},
   		animation: {
   			'accordion-down': 'accordion-down 0.2s ease-out',
-  			'accordion-up': 'accordion-up 0.2s ease-out'
+  			'accordion-up': 'accordion-up 0.2s ease-out',
+  			'graph-flash': 'graph-flash 1.5s ease-out forwards'
   		}
   	}
   },
@@ -1,17 +1,24 @@
 // Common types shared across all components
+import { DatasetSchemaDefinition } from './schema'
+
+// Value of a record field on a node - a list when a multi-valued field holds several values
+export type NodeFieldValue = string | string[]
 
 export interface NodeData {
+  [field: string]: NodeFieldValue | number | Record<string, string> | undefined // Any other dataset schema column
   recordId: string
   clusterId?: number
   salutation?: string
   firstName?: string
   lastName?: string
-  email?: string
-  phone?: string
+  email?: NodeFieldValue // Multi-valued: a list when the record has several
+  phone?: NodeFieldValue
   party?: string
   addressLine1?: string
   city?: string
   country?: string
+  governmentId?: string
+  rawValues?: Record<string, string> // Original values of fields changed by normalization
   x: number
   y: number
 }
@@ -19,14 +26,26 @@ export interface NodeData {
 export interface Edge {
   from: string
   to: string
-  type: "positive" | "negative" | "mixed"
+  type: "positive" | "negative" | "mixed" | "neutral" // neutral: every rule was neutral - only created on request
   matchingFields: string[]
   nonMatchingFields: string[]
   rulesUsed: string[][]
   matchScore: number
   results?: any[] // Store actual rule evaluation results for display
+  constraint?: LinkConstraint // Set by hard constraint rules - overrides matchScore in clustering
+  constraintRules?: string[] // Names of the constraint rules that fired
+}
+
+// Adjacency index over an edge list, so pair and neighbour lookups do not scan every edge
+export interface EdgeIndex {
+  edges: Edge[]
+  byPair: Map<string, Edge[]> // Keyed by edgePairKey - both directions share a key; edges in list order
+  byNode: Map<string, Edge[]> // Every edge touching the node, in list order
 }
 
+// Hard constraint between two records: always in one cluster, or never
+export type LinkConstraint = 'mustLink' | 'cannotLink'
+
 export interface UnifiedEdge {
   from: string
   to: string
@@ -47,6 +66,7 @@ export interface ClusteringResult {
   clusterGroups: Map<number, Set<string>>
   qualityMetrics: ClusteringQualityMetrics
   constraintViolations: ConstraintViolation[]
+  constraintOverrides: ConstraintOverride[]
 }
 
 export interface ClusteringQualityMetrics {
@@ -69,17 +89,22 @@ export interface ConstraintViolation {
   negativeEdgeType: string
 }
 
-export interface DataRecord {
-  "Record-Id": string
-  "Salutation": string
-  "First Name": string
-  "Last Name": string
-  "Email": string
-  "Phone": string
-  "Party": string
+// A clustering decision made by a hard constraint rather than by the match score
+export interface ConstraintOverride {
+  node1: string
+  node2: string
+  constraint: LinkConstraint
+  rules: string[]
+  matchScore: number
+  effect: 'merged' | 'separated' | 'blocked' // blocked: a must-link that a cannot-link prevented
+  message: string
 }
 
+// One row of a dataset: column header → cell value. The columns are described by a DatasetSchema
+export type DataRecord = Record<string, string>
+
 export interface DataExample {
   name: string
   data: DataRecord[]
+  schema?: DatasetSchemaDefinition // Declared columns, types and labels; the rest is inferred from the data
 } 
\ No newline at end of file
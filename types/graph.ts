@@ -48,6 +48,13 @@ export interface GraphRenderConfig {
   animationDuration: number
 }
 
+// Nodes and edges an incremental update touched; they flash once per update
+export interface GraphHighlight {
+  id: number // Differs per update, so the same nodes flash again on the next one
+  nodeIds: Set<string>
+  edgeKeys: Set<string> // "from-to"
+}
+
 export interface GraphBounds {
   minX: number
   maxX: number
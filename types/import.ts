@@ -0,0 +1,53 @@
+// Types for importing datasets from files - parsed tables, how their columns map onto schema fields,
+// and the import worker's message protocol
+
+export type ImportFormat = 'csv' | 'jsonl' | 'xlsx' | 'parquet'
+
+export type ImportEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+// "auto" lets the parser guess from the first lines
+export type ImportDelimiter = 'auto' | ',' | '\t' | ';' | '|'
+
+export interface ImportOptions {
+  encoding?: ImportEncoding // Text formats only; detected when left out
+  delimiter?: ImportDelimiter // CSV/TSV only
+}
+
+// A row that could not be read - left out of the table and offered as a download
+export interface ImportReject {
+  row: number // 1-based line or row number in the file (the header is row 1 in CSV and XLSX)
+  reason: string
+  raw: string // The row as it appears in the file, as far as it could be read
+}
+
+export interface ImportedTable {
+  fileName: string
+  format: ImportFormat
+  encoding: ImportEncoding | null // Null for binary formats
+  delimiter: string | null // Delimiter used - the detected one when parsed with "auto"; null except for CSV/TSV
+  headers: string[] // Trimmed column names, in file order
+  rows: string[][] // Trimmed cells, one per header
+  rejects: ImportReject[]
+}
+
+export interface ColumnMapping {
+  source: string // Header in the file
+  target: string // Schema field the column becomes, IMPORT_ID_TARGET for the record ID, or "" to skip it
+}
+
+export interface ImportProgress {
+  rowsRead: number
+  bytesRead: number
+  totalBytes: number
+}
+
+// Main thread → worker. A new read supersedes (cancels) the one in progress.
+export type ImportRequest =
+  | { type: 'read'; requestId: number; file: File; options: ImportOptions }
+  | { type: 'cancel'; requestId: number }
+
+// Worker → main thread. Every message carries the requestId it belongs to; stale reads are ignored.
+export type ImportResponse =
+  | { type: 'progress'; requestId: number; progress: ImportProgress }
+  | { type: 'done'; requestId: number; table: ImportedTable }
+  | { type: 'error'; requestId: number; message: string }
@@ -1,9 +1,256 @@
 // Types specific to match rules and rule evaluation
+import { Edge, LinkConstraint } from '@/types/common'
 
 export type MatchRule = {
   name: string
-  fields: string[]
+  fields: string[] // Fields all required to be equal, or the fields compared by `match`
   children: MatchRule[]
+  comparators?: Record<string, ComparatorSpec> // Per-field comparator overrides for this rule
+  weight?: number // Multiplies this rule's score on top of its level weight (default 1)
+  match?: RuleExpression // Replaces "all fields equal" with a boolean expression
+  when?: RuleExpression // Rule only applies to pairs where this is true; otherwise it is neutral
+  constraint?: LinkConstraint // Top-level only: positive → must-link, negative → cannot-link; never scored
+}
+
+// How a field compares across the two records
+export type FieldState = 'equal' | 'conflict' | 'missing'
+
+// Boolean rule expression - evaluated with three-valued logic where a missing value gives "unknown"
+export type RuleExpression =
+  | { field: string; is?: FieldState } // Field compares as `is` (default "equal")
+  | { field: string; equals: string } // Both records hold this value (case-insensitive)
+  | { all: RuleExpression[] } // AND
+  | { any: RuleExpression[] } // OR
+  | { not: RuleExpression }
+  | { atLeast: number; of: RuleExpression[] } // At least N of the expressions are true
+
+// How a field treats missing values. Both sides missing always compares as "missing".
+export interface MissingValuePolicy {
+  oneSided?: FieldComparisonOutcome // Outcome when only one record has a value (default "missing" - rules stay neutral)
+  similarity?: number // Similarity given to a one-sided match or conflict (default 1 for match, 0.5 for conflict)
+  nullTokens?: string[] // Raw values read as missing, case-insensitive (e.g. "N/A", "000-000-0000")
+}
+
+// Names a registered comparator plus its tuning options
+export interface ComparatorSpec {
+  type: string
+  threshold?: number // Minimum similarity counted as a match (fuzzy comparators)
+  tolerance?: number // Maximum absolute difference counted as a match (numeric comparator)
+}
+
+// Names a registered normalizer plus its options
+export interface NormalizerSpec {
+  type: string
+  defaultCountryCode?: string // e164Phone: country code for numbers written without one
+  map?: Record<string, string> // nickname: extra nickname → name mappings
+}
+
+// Names a registered validator plus its options - checks a field's raw values in the data table
+export interface ValidatorSpec {
+  type: string // Registered validator: "required", "email", "phone", "allowedValues", "maxLength" or "pattern"
+  values?: string[] // allowedValues: the values accepted (compared without case)
+  max?: number // maxLength: most characters per value
+  pattern?: string // pattern: regular expression every value must match
+  message?: string // Shown instead of the validator's own message
+}
+
+// Messages of the validators a record fails, per field
+export type RecordErrors = Record<string, string[]>
+
+// One blocking key - records sharing a key value (or, for sortedNeighborhood, sorting close together) become candidate pairs
+export interface BlockingKeySpec {
+  type: string // Registered blocker: "exact", "sortedNeighborhood" or "minhash"
+  fields: string[] // Compound key - every field must have a value
+  name?: string // Label in blocking stats (default type:fields)
+  prefix?: number // exact / sortedNeighborhood: keep the first N characters of each value
+  suffix?: number // exact / sortedNeighborhood: keep the last N characters (e.g. 7 for a phone's local number)
+  window?: number // sortedNeighborhood: records compared with the next window - 1 records in key order (default 3)
+  bands?: number // minhash: LSH bands - more bands find less similar pairs (default 10)
+  rows?: number // minhash: signature rows per band - more rows demand more similar pairs (default 2)
+  qgram?: number // minhash: hash character q-grams of the tokens instead of whole tokens
+}
+
+// Candidate generation - only candidate pairs are scored. No keys compares every pair.
+export interface BlockingConfig {
+  keys: BlockingKeySpec[] // Candidate pairs are the union over all keys
+  maxBlockSize?: number // Blocks with more records are skipped as uninformative (default 1000)
+  sampleSize?: number // Excluded pairs scored to estimate pairs completeness (default 1000)
+}
+
+export type FieldComparisonOutcome = 'match' | 'conflict' | 'missing'
+
+export interface FieldComparison {
+  outcome: FieldComparisonOutcome
+  similarity: number // 0..1
+  comparator: string
+  matchedValues?: Array<[string, string]> // Multi-valued fields: the value pairs that matched
+}
+
+// How one field of a rule compared - kept on rule results so the UI can show partial credit
+export interface FieldSimilarity extends FieldComparison {
+  field: string
+}
+
+// A ruleset is the full, validated rule configuration loaded from a rule file
+export interface Ruleset {
+  version: number
+  name: string
+  rules: MatchRule[] // Top-level rules in precedence order (highest first)
+  levelWeights: Record<number, number> // Score multiplier per rule depth; deeper levels reuse the deepest configured weight
+  comparators: Record<string, ComparatorSpec> // Default comparator per field
+  normalization: Record<string, NormalizerSpec[]> // Normalization steps per field, applied before evaluation
+  validation: Record<string, ValidatorSpec[]> // Validators per field, run on the raw data
+  missingValues: Record<string, MissingValuePolicy> // Missing-value policy per field
+  blocking: BlockingConfig // Which record pairs are scored
+  tests: RuleTestCase[] // Labeled record pairs the rules are expected to get right
+}
+
+// Outcome a test pair must produce - overall status, score range and/or constraint (at least one of them)
+export interface RuleTestExpectation {
+  status?: 'positive' | 'negative' | 'neutral' // Left out when only a constraint decides the pair
+  minScore?: number
+  maxScore?: number
+  constraint?: LinkConstraint | 'none'
+}
+
+// A labeled record pair; records hold raw field values keyed by field name
+export interface RuleTestCase {
+  name: string
+  records: [Record<string, string>, Record<string, string>]
+  expect: RuleTestExpectation
+}
+
+export interface RuleTestResult {
+  test: RuleTestCase
+  passed: boolean
+  status: 'positive' | 'negative' | 'neutral'
+  score: number
+  constraint: LinkConstraint | null
+  failures: string[] // One message per unmet expectation
+}
+
+// A hypothetical change to how one field compares across a record pair
+export interface FieldChange {
+  field: string
+  from: FieldState
+  to: FieldState
+}
+
+// A minimal set of field changes that moves a top-level rule chain to another status
+export interface Counterfactual {
+  rule: string
+  from: 'positive' | 'negative' | 'neutral'
+  to: 'positive' | 'negative' | 'neutral'
+  changes: FieldChange[]
+  rulesUsed: string[] // Rule path that decides the new status
+  matchScore: number // Pair's match score with the changes applied
+  constraint: LinkConstraint | null // Pair's hard constraint with the changes applied
+}
+
+export interface RuleCounterfactuals {
+  rule: string
+  status: 'positive' | 'negative' | 'neutral'
+  options: Counterfactual[] // Empty when no small enough set of changes flips the rule
+}
+
+// What it would take for a record pair to match or not match, rule by rule
+export interface CounterfactualAnalysis {
+  node1: string
+  node2: string
+  matchScore: number
+  constraint: LinkConstraint | null
+  fieldStates: Record<string, FieldState> // Current state of every field the rules compare
+  rules: RuleCounterfactuals[]
+}
+
+// Pairs one blocking key contributed
+export interface BlockingKeyStats {
+  key: string
+  blocks: number // Blocks (or windows) with at least two records
+  largestBlock: number
+  skippedBlocks: number // Blocks over maxBlockSize, not used
+  pairs: number // Distinct pairs from this key alone
+}
+
+// Candidate pairs for a list of nodes, as node index pairs [i, j] with i < j in ascending order
+export interface CandidatePairs {
+  pairs: Array<[number, number]>
+  keys: BlockingKeyStats[] // Empty when no blocking is configured
+}
+
+// How much blocking saved and, estimated, what it missed. A "match" is a pair with a
+// positive score or a must-link constraint.
+export interface BlockingStats {
+  totalPairs: number
+  candidatePairs: number
+  reductionRatio: number // Share of all pairs never scored
+  keys: BlockingKeyStats[]
+  candidateMatches: number
+  sampledPairs: number // Excluded pairs scored to estimate missed matches
+  sampledMatches: number
+  estimatedMissedMatches: number
+  pairsCompleteness: number | null // candidateMatches / (candidateMatches + estimatedMissedMatches); null without matches
+  exact: boolean // Every excluded pair was scored, so the estimate is exact
+}
+
+// Edges after editing a few records, re-scoring only the pairs that touch them
+export interface IncrementalEdges {
+  candidates: CandidatePairs
+  edges: Edge[] // Same edges, in the same order, as a full calculateEdges run
+  scoredPairs: number
+  changedEdges: string[] // "from-to" keys of edges added or re-scored to a different result
+  affectedNodeIds: string[] // Edited records plus both ends of every added, changed or removed edge
+}
+
+// How one rule of the tree behaved across every record pair of the dataset
+export interface RuleFiringStats {
+  ruleName: string
+  level: number // Depth of the rule's first appearance in the tree (1 = top level)
+  positive: number // Pairs where the rule itself evaluated positive
+  negative: number
+  neutral: number
+  shadowed: number // Pairs where it was never evaluated because an ancestor was already positive or negative
+  positiveScore: number // Weighted score the rule added to match scores, summed over pairs
+  negativeScore: number
+  constraint?: LinkConstraint // Constraint rules are not scored - they count pairs they linked or separated
+  constraintFired?: number
+}
+
+export interface RuleAnalytics {
+  totalPairs: number // Scored (candidate) pairs
+  rules: RuleFiringStats[] // Tree order, each rule once
+  neverFired: string[] // Never positive or negative (or, for constraint rules, never fired)
+  alwaysShadowed: string[] // Never evaluated at all - an ancestor always decided first
+}
+
+// Rule file format - children may be inline rules or references to a rule defined elsewhere in the file
+export type RuleDefinition = {
+  name: string
+  fields?: string[] // Required unless `match` is given
+  children?: Array<RuleDefinition | string>
+  comparators?: Record<string, ComparatorSpec | string>
+  weight?: number
+  match?: RuleExpression
+  when?: RuleExpression
+  constraint?: LinkConstraint
+}
+
+export interface RulesetDefinition {
+  version: number
+  name?: string
+  levelWeights?: Record<string, number>
+  comparators?: Record<string, ComparatorSpec | string>
+  normalization?: Record<string, Array<NormalizerSpec | string>>
+  validation?: Record<string, Array<ValidatorSpec | string>>
+  missingValues?: Record<string, MissingValuePolicy>
+  blocking?: BlockingConfig
+  rules: RuleDefinition[]
+  tests?: RuleTestCase[]
+}
+
+export interface RulesetValidationIssue {
+  path: string
+  message: string
 }
 
 export type RuleEvalResult = {
@@ -13,6 +260,7 @@ export type RuleEvalResult = {
   missingFields: string[]
   rulesUsed: string[][]
   score: number
+  fieldSimilarities: FieldSimilarity[] // One entry per rule field, in rule order
   individualRuleStatuses?: Array<{
     ruleName: string
     status: 'positive' | 'negative' | 'neutral'
@@ -21,9 +269,12 @@ export type RuleEvalResult = {
   individualRuleScores?: Array<{
     ruleName: string
     baseScore: number
-    multiplier: number
+    multiplier: number // levelWeight × ruleWeight
+    levelWeight: number
+    ruleWeight: number
     finalScore: number
     level: number
+    fieldSimilarities?: FieldSimilarity[] // Only set on the rule that produced the score
   }>
 }
 
@@ -0,0 +1,49 @@
+// Types for the graph pipeline (blocking → scoring → clustering) and its worker message protocol
+import { ClusteringResult, Edge, NodeData } from './common'
+import { BlockingStats, CandidatePairs, Ruleset } from './match-rules'
+
+export interface PipelineInput {
+  nodes: NodeData[] // Normalized nodes
+  ruleset: Ruleset
+  includeNeutral: boolean // Also return "neutral" edges for all-neutral pairs (never clustered)
+  excludedRecordIds: string[] // Records left out of scoring (e.g. failing validation) - they get no edges
+}
+
+export interface PipelineProgress {
+  phase: 'blocking' | 'scoring' | 'clustering'
+  done: number // Scoring: candidate pairs scored so far
+  total: number
+}
+
+// What an incremental run (only edited records re-scored) changed
+export interface PipelineChanges {
+  nodeIds: string[] // Edited records and both ends of every added, changed or removed edge
+  edgeKeys: string[] // "from-to" keys of added or re-scored edges
+  scoredPairs: number
+}
+
+export interface PipelineResult {
+  edges: Edge[] // Scored and (with includeNeutral) neutral edges, in pair order
+  candidates: CandidatePairs
+  blockingStats: BlockingStats | null
+  clusteringResult: ClusteringResult
+  changes: PipelineChanges | null // Null after a full run
+}
+
+// A completed run - the starting point for an incremental one
+export interface PipelineRun {
+  input: PipelineInput
+  result: PipelineResult
+}
+
+// Main thread → worker. A new run supersedes (cancels) the one in progress.
+export type PipelineRequest =
+  | { type: 'run'; runId: number; input: PipelineInput }
+  | { type: 'cancel'; runId: number }
+
+// Worker → main thread. Every message carries the runId it belongs to; stale runs are ignored.
+export type PipelineResponse =
+  | { type: 'progress'; runId: number; progress: PipelineProgress }
+  | { type: 'edges'; runId: number; edges: Edge[] } // Edges of the pairs scored since the last batch
+  | { type: 'done'; runId: number; result: PipelineResult }
+  | { type: 'error'; runId: number; message: string }
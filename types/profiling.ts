@@ -0,0 +1,34 @@
+// Types for data-quality profiling - per-column fill rate, values, formats and placeholders of a dataset
+import { ColumnType } from './schema'
+
+// A value or format and the records holding it
+export interface ValueCount {
+  value: string
+  count: number // Records, not values - a record with the value twice counts once
+  recordIds: string[]
+}
+
+export interface FieldProfile {
+  name: string // Column header
+  field: string
+  label: string
+  type: ColumnType
+  filled: number // Records with at least one value
+  fillRate: number // filled / records, 0 when there are no records
+  distinct: number // Distinct values, placeholders included
+  missingRecordIds: string[]
+  topValues: ValueCount[] // Most frequent values first
+  patterns: ValueCount[] // Value formats (phone layouts, email domains, ...), most frequent first
+  placeholders: ValueCount[] // Values that stand in for missing data ("N/A", "test@test.com", "0000000000", ...)
+}
+
+export interface DatasetProfile {
+  recordCount: number
+  fields: FieldProfile[] // In schema column order
+}
+
+// Records the data table is narrowed to, picked from the profile
+export interface RecordFilter {
+  label: string // What was picked, e.g. "Phone: (999) 999-9999"
+  recordIds: Set<string>
+}
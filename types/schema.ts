@@ -0,0 +1,31 @@
+// Types for dataset schemas - the columns of a dataset and the record fields they become
+
+// What a column holds - decides how it is inferred, parsed and shown
+export type ColumnType = 'text' | 'email' | 'phone' | 'id' | 'number' | 'date'
+
+export interface SchemaColumn {
+  name: string // Column header in the data, e.g. "First Name"
+  field: string // Record field that rules, normalization and blocking refer to, e.g. "firstName"
+  label: string // Shown in the data table and details panel
+  type: ColumnType
+  multiValued: boolean // Cells may hold several values separated by ";", "," or new lines
+}
+
+export interface DatasetSchema {
+  idColumn: string // Column holding the record ID
+  columns: SchemaColumn[] // Every other column, in display order
+}
+
+// Schema as declared with a dataset - anything left out is inferred from the column name and values
+export interface SchemaColumnDefinition {
+  name: string
+  field?: string
+  label?: string
+  type?: ColumnType
+  multiValued?: boolean
+}
+
+export interface DatasetSchemaDefinition {
+  idColumn?: string // Default "Record-Id"
+  columns?: SchemaColumnDefinition[] // Columns not listed here are still taken from the data
+}
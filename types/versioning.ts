@@ -0,0 +1,62 @@
+// Types for saved ruleset versions and the diff between two of them
+import { Ruleset, RulesetDefinition } from '@/types/match-rules'
+
+export interface RulesetVersion {
+  id: string
+  name: string
+  savedAt: string // ISO timestamp
+  ruleset: Ruleset
+  fields: string[] // Fields the rules could use when saved - a dataset's own columns included
+}
+
+// Stored form of a version - the ruleset in rule file format so it reloads through validation
+export interface StoredRulesetVersion {
+  id: string
+  name: string
+  savedAt: string
+  definition: RulesetDefinition
+  fields?: string[] // Missing in versions saved before it was recorded - the default fields are assumed
+}
+
+// A stored version that no longer loads, and why - kept in storage until deleted
+export interface SkippedRulesetVersion {
+  stored: StoredRulesetVersion
+  reason: string
+}
+
+// added/removed: edge exists in only one run; flipped: score changed sign; rescored: same sign, new score
+export type EdgeChangeKind = 'added' | 'removed' | 'flipped' | 'rescored'
+
+export interface EdgeDiff {
+  from: string
+  to: string
+  change: EdgeChangeKind
+  before: number | null // Score in the "before" run (null when there was no edge)
+  after: number | null
+  delta: number
+}
+
+// A record whose set of cluster-mates differs between the runs (cluster IDs alone are not comparable)
+export interface ClusterChange {
+  recordId: string
+  before: number
+  after: number
+  joined: string[] // Records it shares a cluster with only in the "after" run
+  left: string[] // Records it shared a cluster with only in the "before" run
+}
+
+export interface RulesetDiff {
+  before: string // Version names
+  after: string
+  edges: EdgeDiff[]
+  clusterChanges: ClusterChange[]
+  summary: {
+    added: number
+    removed: number
+    flipped: number
+    rescored: number
+    recordsMoved: number
+    clustersBefore: number
+    clustersAfter: number
+  }
+}
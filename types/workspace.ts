@@ -0,0 +1,45 @@
+// Types for workspaces - a dataset, the rules used with it and the view settings, saved in the browser or as a file
+import { DataExample } from './common'
+import { Ruleset, RulesetDefinition } from './match-rules'
+
+// Graph options that change what is drawn and scored
+export interface WorkspaceSettings {
+  showNeutralEdges: boolean
+  excludeInvalidRecords: boolean
+}
+
+export interface Workspace {
+  id: string
+  name: string
+  savedAt: string // ISO timestamp of the last (auto)save
+  dataset: DataExample // Records as edited, with the full schema so columns come back exactly
+  ruleset: Ruleset
+  settings: WorkspaceSettings
+}
+
+// Stored form of a workspace - the ruleset in rule file format so it reloads through validation
+export interface StoredWorkspace {
+  id: string
+  name: string
+  savedAt: string
+  dataset: DataExample
+  ruleset: RulesetDefinition
+  settings: WorkspaceSettings
+}
+
+// A stored workspace that no longer loads, and why - kept in storage until deleted
+export interface SkippedWorkspace {
+  stored: StoredWorkspace
+  reason: string
+}
+
+// A workspace exported to share - the stored form without the browser-local ID
+export interface WorkspaceFile {
+  format: string // WORKSPACE_FILE_FORMAT, so other JSON files are rejected
+  version: number
+  name: string
+  savedAt: string
+  dataset: DataExample
+  ruleset: RulesetDefinition
+  settings: WorkspaceSettings
+}
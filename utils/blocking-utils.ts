@@ -0,0 +1,122 @@
+// Blocking utility functions - Group records into blocks so only records sharing a block are compared
+import { NodeData } from '@/types/common'
+import { BlockingKeySpec } from '@/types/match-rules'
+import { toValueList } from '@/utils/field-utils'
+
+// A blocker groups node indices into blocks; every pair inside a block becomes a candidate pair
+export type Blocker = (nodes: NodeData[], spec: BlockingKeySpec) => number[][]
+
+const DEFAULT_WINDOW = 3
+const DEFAULT_BANDS = 10
+const DEFAULT_ROWS = 2
+
+// Lowercased value with whitespace collapsed, cut to the spec's prefix or suffix
+function toKeyPart(value: string, spec: BlockingKeySpec): string {
+  let part = value.replace(/\s+/g, ' ').trim().toLowerCase()
+  if (spec.prefix !== undefined) part = part.slice(0, spec.prefix)
+  if (spec.suffix !== undefined) part = part.slice(-spec.suffix)
+  return part
+}
+
+// Every key value of a node - one per combination of its field values; none when a field is missing
+function getKeyValues(node: NodeData, spec: BlockingKeySpec): string[] {
+  let keys: string[] = []
+  for (const [index, field] of spec.fields.entries()) {
+    const parts = toValueList(node[field]).map(value => toKeyPart(value, spec)).filter(Boolean)
+    if (parts.length === 0) return []
+    keys = index === 0 ? parts : keys.flatMap(key => parts.map(part => `${key}|${part}`))
+  }
+  return Array.from(new Set(keys))
+}
+
+// Node indices grouped by key value
+function groupByKey(entries: Array<[string, number]>): number[][] {
+  const blocks = new Map<string, Set<number>>()
+  for (const [key, index] of entries) {
+    if (!blocks.has(key)) blocks.set(key, new Set())
+    blocks.get(key)!.add(index)
+  }
+  return Array.from(blocks.values(), block => Array.from(block))
+}
+
+// Words of the fields, or their character q-grams
+function getTokens(node: NodeData, spec: BlockingKeySpec): string[] {
+  const words = spec.fields
+    .flatMap(field => toValueList(node[field]))
+    .flatMap(value => value.toLowerCase().split(/[^\p{L}\p{N}]+/u))
+    .filter(Boolean)
+  if (!spec.qgram) return Array.from(new Set(words))
+
+  const q = spec.qgram
+  return Array.from(new Set(words.flatMap(word =>
+    word.length <= q ? [word] : Array.from({ length: word.length - q + 1 }, (_, i) => word.slice(i, i + q))
+  )))
+}
+
+// Seeded 32-bit string hash (FNV-1a with a murmur3 finalizer) - one seed per minhash function
+function hashToken(token: string, seed: number): number {
+  let hash = (2166136261 ^ Math.imul(seed + 1, 0x9e3779b9)) >>> 0
+  for (let i = 0; i < token.length; i++) {
+    hash = Math.imul(hash ^ token.charCodeAt(i), 16777619)
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b)
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35)
+  return (hash ^ (hash >>> 16)) >>> 0
+}
+
+// Built-in blockers, keyed by the name used in rule files
+export const blockerRegistry = new Map<string, Blocker>([
+  // Records with an equal key value (e.g. normalized email, or lastName + city)
+  ['exact', (nodes, spec) =>
+    groupByKey(nodes.flatMap((node, index) => getKeyValues(node, spec).map(key => [key, index] as [string, number])))
+  ],
+
+  // Records sorted by key value; each is compared with the next window - 1 records, so near-equal keys meet
+  ['sortedNeighborhood', (nodes, spec) => {
+    const window = spec.window || DEFAULT_WINDOW
+    const sorted = nodes
+      .flatMap((node, index) => getKeyValues(node, spec).map(key => [key, index] as [string, number]))
+      .sort(([key1], [key2]) => (key1 < key2 ? -1 : key1 > key2 ? 1 : 0))
+
+    const blocks: number[][] = []
+    for (let start = 0; start + 1 < sorted.length; start++) {
+      blocks.push(Array.from(new Set(sorted.slice(start, start + window).map(([, index]) => index))))
+    }
+    return blocks
+  }],
+
+  // Locality-sensitive hashing of token sets: records whose minhash signatures agree on a
+  // whole band share a block, so pairs with similar tokens (e.g. names) meet with high probability
+  ['minhash', (nodes, spec) => {
+    const bands = spec.bands || DEFAULT_BANDS
+    const rows = spec.rows || DEFAULT_ROWS
+
+    const entries: Array<[string, number]> = []
+    nodes.forEach((node, index) => {
+      const tokens = getTokens(node, spec)
+      if (tokens.length === 0) return
+
+      const signature = Array.from({ length: bands * rows }, (_, seed) =>
+        Math.min(...tokens.map(token => hashToken(token, seed)))
+      )
+      for (let band = 0; band < bands; band++) {
+        entries.push([`${band}:${signature.slice(band * rows, (band + 1) * rows).join(',')}`, index])
+      }
+    })
+    return groupByKey(entries)
+  }]
+])
+
+/**
+ * Adds (or replaces) a blocker in the registry so rule files can refer to it by name
+ */
+export function registerBlocker(name: string, blocker: Blocker) {
+  blockerRegistry.set(name, blocker)
+}
+
+/**
+ * Label of a blocking key in stats - its name, or type and fields
+ */
+export function formatBlockingKey(spec: BlockingKeySpec): string {
+  return spec.name || `${spec.type}:${spec.fields.join('+')}`
+}
@@ -0,0 +1,222 @@
+// Comparator utility functions - Pluggable per-field value comparison
+import { doubleMetaphone } from 'double-metaphone'
+import { ComparatorSpec, FieldComparison, MissingValuePolicy } from '@/types/match-rules'
+import { toValueList } from '@/utils/field-utils'
+
+// A comparator receives two non-missing values and decides match or conflict
+export type Comparator = (val1: string, val2: string, spec: ComparatorSpec) => Omit<FieldComparison, 'comparator'>
+
+/**
+ * Checks whether a field value counts as missing (null, undefined, empty string or a list without values)
+ */
+export function isMissingValue(value: unknown): boolean {
+  return toValueList(value).length === 0
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (a.length === 0) return b.length
+  if (b.length === 0) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Jaro-Winkler similarity between two strings (0 = nothing in common, 1 = identical)
+ */
+export function jaroWinklerSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (a.length === 0 || b.length === 0) return 0
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatches = new Array(a.length).fill(false)
+  const bMatches = new Array(b.length).fill(false)
+
+  let matches = 0
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow)
+    const end = Math.min(i + matchWindow + 1, b.length)
+    for (let j = start; j < end; j++) {
+      if (!bMatches[j] && a[i] === b[j]) {
+        aMatches[i] = true
+        bMatches[j] = true
+        matches++
+        break
+      }
+    }
+  }
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue
+    while (!bMatches[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+
+  // Winkler boost for a common prefix of up to 4 characters
+  let prefix = 0
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++
+
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+/**
+ * American Soundex code of a word (e.g. "Robert" → "R163")
+ */
+export function soundex(value: string): string {
+  const letters = value.toUpperCase().replace(/[^A-Z]/g, '')
+  if (letters.length === 0) return ''
+
+  const codes: Record<string, string> = {
+    B: '1', F: '1', P: '1', V: '1',
+    C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+    D: '3', T: '3',
+    L: '4',
+    M: '5', N: '5',
+    R: '6'
+  }
+
+  let result = letters[0]
+  let previousCode = codes[letters[0]] || ''
+  for (const letter of letters.slice(1)) {
+    const code = codes[letter] || ''
+    if (code && code !== previousCode) result += code
+    // H and W do not separate letters with the same code; vowels do
+    if (letter !== 'H' && letter !== 'W') previousCode = code
+  }
+  return (result + '000').slice(0, 4)
+}
+
+const normalizeFuzzy = (value: string) => value.trim().toLowerCase()
+
+const exactResult = (isMatch: boolean) => ({
+  outcome: isMatch ? 'match' as const : 'conflict' as const,
+  similarity: isMatch ? 1 : 0
+})
+
+// Built-in comparators, keyed by the name used in rule files
+export const comparatorRegistry = new Map<string, Comparator>([
+  ['exact', (val1, val2) => exactResult(val1 === val2)],
+
+  ['caseInsensitive', (val1, val2) => exactResult(val1.toLowerCase() === val2.toLowerCase())],
+
+  ['trimmed', (val1, val2) => exactResult(val1.trim() === val2.trim())],
+
+  ['jaroWinkler', (val1, val2, spec) => {
+    const similarity = jaroWinklerSimilarity(normalizeFuzzy(val1), normalizeFuzzy(val2))
+    return { outcome: similarity >= (spec.threshold ?? 0.9) ? 'match' : 'conflict', similarity }
+  }],
+
+  ['levenshtein', (val1, val2, spec) => {
+    const a = normalizeFuzzy(val1)
+    const b = normalizeFuzzy(val2)
+    const longest = Math.max(a.length, b.length)
+    const similarity = longest === 0 ? 1 : 1 - levenshteinDistance(a, b) / longest
+    return { outcome: similarity >= (spec.threshold ?? 0.8) ? 'match' : 'conflict', similarity }
+  }],
+
+  ['soundex', (val1, val2) => {
+    const code1 = soundex(val1)
+    return exactResult(code1 !== '' && code1 === soundex(val2))
+  }],
+
+  ['doubleMetaphone', (val1, val2) => {
+    const codes1 = doubleMetaphone(normalizeFuzzy(val1)).filter(Boolean)
+    const codes2 = doubleMetaphone(normalizeFuzzy(val2)).filter(Boolean)
+    return exactResult(codes1.some(code => codes2.includes(code)))
+  }],
+
+  ['numeric', (val1, val2, spec) => {
+    const num1 = parseFloat(val1.replace(/[^\d.-]/g, ''))
+    const num2 = parseFloat(val2.replace(/[^\d.-]/g, ''))
+    if (isNaN(num1) || isNaN(num2)) return exactResult(val1.trim() === val2.trim())
+
+    const difference = Math.abs(num1 - num2)
+    const scale = Math.max(Math.abs(num1), Math.abs(num2))
+    const similarity = scale === 0 ? 1 : Math.max(0, 1 - difference / scale)
+    return { outcome: difference <= (spec.tolerance ?? 0) ? 'match' : 'conflict', similarity }
+  }]
+])
+
+// Comparator used for fields that do not name one
+export const DEFAULT_COMPARATOR: ComparatorSpec = { type: 'exact' }
+
+/**
+ * Adds (or replaces) a comparator in the registry so rule files can refer to it by name
+ */
+export function registerComparator(name: string, comparator: Comparator) {
+  comparatorRegistry.set(name, comparator)
+}
+
+/**
+ * Compares two field values with the given comparator.
+ * Both values missing always produces a "missing" outcome; one value missing
+ * does too unless the field's missing-value policy says otherwise.
+ */
+export function compareFieldValues(
+  val1: unknown,
+  val2: unknown,
+  spec: ComparatorSpec = DEFAULT_COMPARATOR,
+  missingPolicy?: MissingValuePolicy
+): FieldComparison {
+  const missing1 = isMissingValue(val1)
+  const missing2 = isMissingValue(val2)
+  if (missing1 || missing2) {
+    const oneSided = missingPolicy?.oneSided || 'missing'
+    if ((missing1 && missing2) || oneSided === 'missing') {
+      return { outcome: 'missing', similarity: 0, comparator: spec.type }
+    }
+    // One side blank counts as compatible, or as a weak conflict
+    const similarity = missingPolicy?.similarity ?? (oneSided === 'match' ? 1 : 0.5)
+    return { outcome: oneSided, similarity, comparator: spec.type }
+  }
+
+  const comparator = comparatorRegistry.get(spec.type)
+  if (!comparator) {
+    throw new Error(`Unknown comparator "${spec.type}"`)
+  }
+
+  const values1 = toValueList(val1)
+  const values2 = toValueList(val2)
+  if (values1.length === 1 && values2.length === 1) {
+    return { ...comparator(values1[0], values2[0], spec), comparator: spec.type }
+  }
+
+  // Multi-valued: any overlapping value matches, disjoint value sets conflict.
+  // Similarity is the best matching pair's, or the closest pair's when nothing matches.
+  const matchedValues: Array<[string, string]> = []
+  let bestMatch = 0
+  let bestConflict = 0
+  for (const value1 of values1) {
+    for (const value2 of values2) {
+      const result = comparator(value1, value2, spec)
+      if (result.outcome === 'match') {
+        matchedValues.push([value1, value2])
+        bestMatch = Math.max(bestMatch, result.similarity)
+      } else {
+        bestConflict = Math.max(bestConflict, result.similarity)
+      }
+    }
+  }
+
+  return matchedValues.length > 0
+    ? { outcome: 'match', similarity: bestMatch, comparator: spec.type, matchedValues }
+    : { outcome: 'conflict', similarity: bestConflict, comparator: spec.type, matchedValues }
+}
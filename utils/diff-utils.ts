@@ -0,0 +1,132 @@
+// Diff utility functions - Compare the edges and clusters produced by two ruleset runs
+import { Edge } from '@/types/common'
+import { ClusterChange, EdgeDiff, RulesetDiff } from '@/types/versioning'
+import { toCsv } from '@/utils/download-utils'
+
+// Score changes smaller than this are rounding noise (edge scores carry 3 decimals)
+const SCORE_EPSILON = 0.0005
+
+// Edges plus cluster assignments of one run of the pipeline
+export interface RulesetRun {
+  name: string
+  edges: Edge[]
+  assignments: Map<string, number>
+}
+
+const pairKey = (from: string, to: string) => [from, to].sort().join('|')
+
+const scoreSign = (score: number) => (score > 0.001 ? 1 : score < -0.001 ? -1 : 0)
+
+// Groups record IDs by cluster so cluster-mates can be looked up per record
+function clusterMembers(assignments: Map<string, number>): Map<number, Set<string>> {
+  const members = new Map<number, Set<string>>()
+  for (const [recordId, clusterId] of assignments) {
+    if (!members.has(clusterId)) members.set(clusterId, new Set())
+    members.get(clusterId)!.add(recordId)
+  }
+  return members
+}
+
+/**
+ * Lists edges that appeared, disappeared, flipped sign or changed score between two runs
+ */
+export function diffEdges(before: Edge[], after: Edge[]): EdgeDiff[] {
+  const beforeByPair = new Map(before.map(edge => [pairKey(edge.from, edge.to), edge]))
+  const afterByPair = new Map(after.map(edge => [pairKey(edge.from, edge.to), edge]))
+  const diffs: EdgeDiff[] = []
+
+  for (const [key, edge] of beforeByPair) {
+    const next = afterByPair.get(key)
+    if (!next) {
+      diffs.push({ from: edge.from, to: edge.to, change: 'removed', before: edge.matchScore, after: null, delta: -edge.matchScore })
+      continue
+    }
+
+    const delta = next.matchScore - edge.matchScore
+    if (scoreSign(next.matchScore) !== scoreSign(edge.matchScore)) {
+      diffs.push({ from: edge.from, to: edge.to, change: 'flipped', before: edge.matchScore, after: next.matchScore, delta })
+    } else if (Math.abs(delta) > SCORE_EPSILON) {
+      diffs.push({ from: edge.from, to: edge.to, change: 'rescored', before: edge.matchScore, after: next.matchScore, delta })
+    }
+  }
+
+  for (const [key, edge] of afterByPair) {
+    if (!beforeByPair.has(key)) {
+      diffs.push({ from: edge.from, to: edge.to, change: 'added', before: null, after: edge.matchScore, delta: edge.matchScore })
+    }
+  }
+
+  // Biggest movements first
+  return diffs.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+}
+
+/**
+ * Lists records whose cluster-mates differ between two runs
+ */
+export function diffClusters(before: Map<string, number>, after: Map<string, number>): ClusterChange[] {
+  const beforeMembers = clusterMembers(before)
+  const afterMembers = clusterMembers(after)
+  const changes: ClusterChange[] = []
+
+  for (const [recordId, beforeCluster] of before) {
+    const afterCluster = after.get(recordId)
+    if (afterCluster === undefined) continue
+
+    const matesBefore = beforeMembers.get(beforeCluster)!
+    const matesAfter = afterMembers.get(afterCluster)!
+    const joined = Array.from(matesAfter).filter(id => id !== recordId && !matesBefore.has(id)).sort()
+    const left = Array.from(matesBefore).filter(id => id !== recordId && !matesAfter.has(id)).sort()
+
+    if (joined.length > 0 || left.length > 0) {
+      changes.push({ recordId, before: beforeCluster, after: afterCluster, joined, left })
+    }
+  }
+
+  return changes.sort((a, b) => a.recordId.localeCompare(b.recordId))
+}
+
+/**
+ * Compares two runs of the pipeline over the same records
+ */
+export function diffRulesetRuns(before: RulesetRun, after: RulesetRun): RulesetDiff {
+  const edges = diffEdges(before.edges, after.edges)
+  const clusterChanges = diffClusters(before.assignments, after.assignments)
+  const countChanges = (kind: EdgeDiff['change']) => edges.filter(edge => edge.change === kind).length
+
+  return {
+    before: before.name,
+    after: after.name,
+    edges,
+    clusterChanges,
+    summary: {
+      added: countChanges('added'),
+      removed: countChanges('removed'),
+      flipped: countChanges('flipped'),
+      rescored: countChanges('rescored'),
+      recordsMoved: clusterChanges.length,
+      clustersBefore: new Set(before.assignments.values()).size,
+      clustersAfter: new Set(after.assignments.values()).size
+    }
+  }
+}
+
+/**
+ * Renders a diff as CSV - one row per changed edge, then one row per record that changed cluster
+ */
+export function rulesetDiffToCsv(diff: RulesetDiff): string {
+  const format = (score: number | null) => (score === null ? '' : score.toFixed(3))
+
+  return toCsv([
+    ['section', 'record1', 'record2', 'change', diff.before, diff.after, 'delta', 'details'],
+    ...diff.edges.map(edge => [
+      'edge', edge.from, edge.to, edge.change, format(edge.before), format(edge.after), edge.delta.toFixed(3), ''
+    ]),
+    ...diff.clusterChanges.map(change => [
+      'cluster', change.recordId, '', 'moved', change.before, change.after, '',
+      [
+        change.joined.length > 0 ? `joined ${change.joined.join(' ')}` : '',
+        change.left.length > 0 ? `left ${change.left.join(' ')}` : ''
+      ].filter(Boolean).join('; ')
+    ])
+  ])
+}
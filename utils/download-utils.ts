@@ -0,0 +1,39 @@
+// Download utility functions - Save generated content as a file in the browser
+
+/**
+ * Triggers a browser download of text content
+ */
+export function downloadTextFile(fileName: string, content: string, mimeType: string = 'text/plain') {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Triggers a browser download of a value serialized as pretty-printed JSON
+ */
+export function downloadJsonFile(fileName: string, value: unknown) {
+  downloadTextFile(fileName, JSON.stringify(value, null, 2), 'application/json')
+}
+
+/**
+ * Builds CSV text from rows of cells, quoting cells that contain commas, quotes or line breaks
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows
+    .map(row =>
+      row
+        .map(cell => {
+          const text = cell == null ? '' : String(cell)
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+        })
+        .join(',')
+    )
+    .join('\n')
+}
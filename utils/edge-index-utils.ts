@@ -0,0 +1,52 @@
+// Edge index utilities - Pair and neighbour lookups over an edge list in constant time
+import { Edge, EdgeIndex } from '@/types/common'
+
+const EMPTY_EDGES: Edge[] = []
+
+/**
+ * Key of an unordered node pair; (a, b) and (b, a) give the same key
+ */
+export function edgePairKey(a: string, b: string): string {
+  return a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`
+}
+
+/**
+ * Builds the adjacency index of an edge list. Build it once per edge list and share it
+ */
+export function createEdgeIndex(edges: Edge[]): EdgeIndex {
+  const byPair = new Map<string, Edge[]>()
+  const byNode = new Map<string, Edge[]>()
+  const add = (map: Map<string, Edge[]>, key: string, edge: Edge) => {
+    const list = map.get(key)
+    if (list) list.push(edge)
+    else map.set(key, [edge])
+  }
+
+  for (const edge of edges) {
+    add(byPair, edgePairKey(edge.from, edge.to), edge)
+    add(byNode, edge.from, edge)
+    if (edge.to !== edge.from) add(byNode, edge.to, edge)
+  }
+  return { edges, byPair, byNode }
+}
+
+/**
+ * First edge between two nodes in either direction - what edges.find() over the pair would return
+ */
+export function findEdge(index: EdgeIndex, a: string, b: string): Edge | undefined {
+  return index.byPair.get(edgePairKey(a, b))?.[0]
+}
+
+/**
+ * Every edge between two nodes in either direction, in list order
+ */
+export function findEdges(index: EdgeIndex, a: string, b: string): Edge[] {
+  return index.byPair.get(edgePairKey(a, b)) || EMPTY_EDGES
+}
+
+/**
+ * Every edge touching a node, in list order
+ */
+export function getNodeEdges(index: EdgeIndex, nodeId: string): Edge[] {
+  return index.byNode.get(nodeId) || EMPTY_EDGES
+}
@@ -0,0 +1,58 @@
+// Field utility functions - Single- and multi-valued record fields
+import { RuleEvalResult } from '@/types/match-rules'
+
+// Fields that may hold several values per record (e.g. a work and a home email)
+export const MULTI_VALUE_FIELDS = ["email", "phone"]
+
+// Separates the values of a multi-valued field in a data cell or rule test record
+const MULTI_VALUE_SEPARATOR = /[;,\n]/
+
+/**
+ * Reads a raw data cell into a field value - a list when a multi-valued field holds several values.
+ * Whether the field is multi-valued comes from the dataset schema; without one, from MULTI_VALUE_FIELDS
+ */
+export function parseFieldValue(
+  field: string,
+  value: string | undefined | null,
+  multiValued: boolean = MULTI_VALUE_FIELDS.includes(field)
+): string | string[] {
+  if (!value) return ""
+  if (!multiValued) return value
+
+  const values = value.split(MULTI_VALUE_SEPARATOR).map(v => v.trim()).filter(Boolean)
+  return values.length > 1 ? values : values[0] || ""
+}
+
+/**
+ * The non-empty values of a field, whether it holds one value or several
+ */
+export function toValueList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).filter(v => v !== "")
+  return value == null || value === "" ? [] : [String(value)]
+}
+
+/**
+ * Renders a field value for display, joining multiple values with "; "
+ */
+export function formatFieldValue(value: unknown): string {
+  return toValueList(value).join("; ")
+}
+
+/**
+ * Values of each multi-valued field that matched across a pair, per side ([record 1 values, record 2 values])
+ */
+export function collectMatchedValues(results: RuleEvalResult[]): Record<string, [string[], string[]]> {
+  const matched: Record<string, [Set<string>, Set<string>]> = {}
+  for (const result of results) {
+    for (const similarity of result.fieldSimilarities || []) {
+      for (const [value1, value2] of similarity.matchedValues || []) {
+        matched[similarity.field] ??= [new Set(), new Set()]
+        matched[similarity.field][0].add(value1)
+        matched[similarity.field][1].add(value2)
+      }
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(matched).map(([field, [values1, values2]]) => [field, [Array.from(values1), Array.from(values2)]])
+  )
+}
@@ -0,0 +1,258 @@
+// Import utility functions - Parsing imported files into tables and mapping their columns onto a dataset schema
+import Papa from 'papaparse'
+import { DataExample, DataRecord } from '@/types/common'
+import { ColumnMapping, ImportDelimiter, ImportEncoding, ImportedTable, ImportFormat, ImportReject } from '@/types/import'
+import { SchemaColumnDefinition } from '@/types/schema'
+import { jaroWinklerSimilarity } from './comparator-utils'
+import { DEFAULT_ID_COLUMN, KNOWN_COLUMNS, toFieldName } from './schema-utils'
+
+// Mapping target of the column holding record IDs
+export const IMPORT_ID_TARGET = "__recordId__"
+
+// File formats that can be imported, recognized by extension
+export const IMPORT_FORMATS: Array<{ format: ImportFormat; label: string; extensions: string[] }> = [
+  { format: "csv", label: "CSV / TSV", extensions: [".csv", ".tsv", ".txt"] },
+  { format: "jsonl", label: "JSON Lines", extensions: [".jsonl", ".ndjson"] },
+  { format: "xlsx", label: "Excel", extensions: [".xlsx", ".xlsm"] },
+  { format: "parquet", label: "Parquet", extensions: [".parquet"] }
+]
+
+// Delimiters tried when detecting one; also the choices offered for overriding it
+export const IMPORT_DELIMITERS: Array<{ value: ImportDelimiter; label: string }> = [
+  { value: "auto", label: "Detect" },
+  { value: ",", label: "Comma" },
+  { value: "\t", label: "Tab" },
+  { value: ";", label: "Semicolon" },
+  { value: "|", label: "Pipe" }
+]
+
+export const IMPORT_ENCODINGS: ImportEncoding[] = ["utf-8", "utf-16le", "utf-16be", "windows-1252"]
+
+// Headers taken for the record ID column (compared without case, spaces or punctuation)
+const ID_HEADERS = ["recordid", "id", "rowid", "record"]
+
+// How alike a header must be to a known column's name or field to be mapped onto it - "UUDI" → UUID
+const HEADER_SIMILARITY_THRESHOLD = 0.9
+
+// Rows shown in the import preview
+export const PREVIEW_ROWS = 5
+
+// Lines read to detect the delimiter
+const DELIMITER_SAMPLE_ROWS = 1000
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+/**
+ * Import format of a file from its extension, or null when it is not one that can be imported
+ */
+export function detectImportFormat(fileName: string): ImportFormat | null {
+  const name = fileName.toLowerCase()
+  return IMPORT_FORMATS.find(({ extensions }) => extensions.some(extension => name.endsWith(extension)))?.format || null
+}
+
+/**
+ * Guesses a file's text encoding: a byte order mark if there is one, else UTF-8 when the bytes are valid UTF-8, else Windows-1252.
+ * The bytes may be the start of a file only - a character cut off at the end does not count against UTF-8
+ */
+export function detectEncoding(bytes: Uint8Array): ImportEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8"
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le"
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be"
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true })
+    return "utf-8"
+  } catch {
+    return "windows-1252"
+  }
+}
+
+/**
+ * Decodes file bytes as text, dropping a byte order mark
+ */
+export function decodeText(bytes: Uint8Array, encoding: ImportEncoding): string {
+  return new TextDecoder(encoding).decode(bytes)
+}
+
+/**
+ * Cell text for a value read from a structured file: lists become "; "-separated values (read back as
+ * multi-valued), dates at midnight just the date, and nested objects JSON
+ */
+export function toCellText(value: unknown): string {
+  if (value == null) return ""
+  if (typeof value === "string") return value.trim()
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return ""
+    const iso = value.toISOString()
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso
+  }
+  if (Array.isArray(value)) return value.map(toCellText).filter(Boolean).join("; ")
+  if (typeof value === "object") return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v))
+  return String(value)
+}
+
+/**
+ * Table of objects (JSON Lines, Parquet rows): a column per key, in order of first appearance
+ */
+export function tableFromObjects(objects: Array<Record<string, unknown>>): { headers: string[]; rows: string[][] } {
+  const headers: string[] = []
+  const seen = new Set<string>()
+  for (const object of objects) {
+    for (const key of Object.keys(object)) {
+      if (!seen.has(key)) {
+        seen.add(key)
+        headers.push(key)
+      }
+    }
+  }
+  return { headers, rows: objects.map(object => headers.map(header => toCellText(object[header]))) }
+}
+
+/**
+ * Delimiter most rows of the text agree on: the one that splits the header into several columns and gives
+ * the most of the following rows that many cells. Unlike the parser's own guess, one short or long row does
+ * not throw it off. Null when no delimiter splits the header (a single-column file)
+ */
+export function detectDelimiter(text: string): string | null {
+  let best: { delimiter: string; rows: number } | null = null
+  for (const { value } of IMPORT_DELIMITERS) {
+    if (value === "auto") continue
+    const [header = [], ...rows] = Papa.parse<string[]>(text, {
+      delimiter: value,
+      preview: DELIMITER_SAMPLE_ROWS,
+      skipEmptyLines: "greedy"
+    }).data
+    if (header.length < 2) continue
+    const agreeing = rows.filter(row => row.length === header.length).length
+    if (!best || agreeing > best.rows) best = { delimiter: value, rows: agreeing }
+  }
+  return best?.delimiter ?? null
+}
+
+/**
+ * Parses delimited text (CSV, TSV, ...) into a header row and data rows. Blank lines are skipped;
+ * rows the parser reports errors for, or with more or fewer cells than the header, are rejected
+ */
+export function parseDelimitedText(
+  text: string,
+  fileName: string,
+  encoding: ImportEncoding,
+  delimiter: ImportDelimiter = "auto"
+): ImportedTable {
+  const result = Papa.parse<string[]>(text, {
+    delimiter: delimiter === "auto" ? detectDelimiter(text) ?? "," : delimiter,
+    skipEmptyLines: "greedy"
+  })
+
+  const [headerRow = [], ...dataRows] = result.data
+  const headers = headerRow.map((header, index) => header.trim() || `Column ${index + 1}`)
+  const errors = new Map<number, string>() // Index in result.data → first error
+  for (const error of result.errors) {
+    if (error.row !== undefined && !errors.has(error.row)) errors.set(error.row, error.message)
+  }
+
+  const rows: string[][] = []
+  const rejects: ImportReject[] = []
+  dataRows.forEach((row, index) => {
+    const reason = errors.get(index + 1) ||
+      (row.length !== headers.length ? `${row.length} cells, expected ${headers.length}` : null)
+    if (reason) {
+      rejects.push({ row: index + 2, reason, raw: row.join(result.meta.delimiter) })
+    } else {
+      rows.push(row.map(cell => cell.trim()))
+    }
+  })
+
+  return { fileName, format: "csv", encoding, delimiter: result.meta.delimiter, headers, rows, rejects }
+}
+
+/**
+ * Proposes a schema field for each header: an ID-like header becomes the record ID, headers named like a
+ * known column (exactly or nearly) map onto it, and the rest become new columns. No target is used twice
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping[] {
+  const used = new Set<string>()
+
+  return headers.map(source => {
+    const header = normalizeHeader(source)
+
+    if (!used.has(IMPORT_ID_TARGET) && (ID_HEADERS.includes(header) || header === normalizeHeader(DEFAULT_ID_COLUMN))) {
+      used.add(IMPORT_ID_TARGET)
+      return { source, target: IMPORT_ID_TARGET }
+    }
+
+    let best: { field: string; similarity: number } | null = null
+    for (const column of KNOWN_COLUMNS) {
+      if (used.has(column.field)) continue
+      const similarity = Math.max(
+        jaroWinklerSimilarity(header, normalizeHeader(column.name)),
+        jaroWinklerSimilarity(header, normalizeHeader(column.field))
+      )
+      if (similarity >= HEADER_SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { field: column.field, similarity }
+      }
+    }
+
+    const baseTarget = best?.field || toFieldName(source)
+    let target = baseTarget
+    for (let suffix = 2; used.has(target); suffix++) target = `${baseTarget}${suffix}`
+    used.add(target)
+    return { source, target }
+  })
+}
+
+/**
+ * Problems that stop a mapping from being imported - currently targets used by more than one column
+ */
+export function validateColumnMapping(mappings: ColumnMapping[]): string[] {
+  const sources = new Map<string, string[]>()
+  for (const { source, target } of mappings) {
+    if (target) sources.set(target, [...(sources.get(target) || []), source])
+  }
+
+  const issues: string[] = []
+  sources.forEach((columns, target) => {
+    if (columns.length > 1) {
+      const name = target === IMPORT_ID_TARGET ? "the record ID" : `"${target}"`
+      issues.push(`${columns.map(column => `"${column}"`).join(" and ")} are all mapped to ${name}`)
+    }
+  })
+  return issues
+}
+
+/**
+ * Turns a parsed table into a dataset. Mapped columns are renamed to their known column (or keep their
+ * header), skipped ones are dropped; records without an ID, or with one already taken, get a generated ID
+ */
+export function createImportedExample(table: ImportedTable, mappings: ColumnMapping[], name: string): DataExample {
+  const idIndex = mappings.findIndex(mapping => mapping.target === IMPORT_ID_TARGET)
+  const names = new Set([DEFAULT_ID_COLUMN])
+  const columns = mappings.flatMap((mapping, index) => {
+    if (!mapping.target || mapping.target === IMPORT_ID_TARGET) return []
+    const known = KNOWN_COLUMNS.find(column => column.field === mapping.target)
+    const definition: SchemaColumnDefinition = known
+      ? { name: known.name, field: known.field, label: known.label, type: known.type }
+      : { name: mapping.source, field: mapping.target, label: mapping.source }
+    // A new column can carry the header of a known column mapped elsewhere - keep record keys apart
+    for (let suffix = 2; names.has(definition.name); suffix++) definition.name = `${mapping.source} (${suffix})`
+    names.add(definition.name)
+    return [{ index, definition }]
+  })
+
+  const ids = new Set<string>()
+  const data = table.rows.map((row, rowIndex) => {
+    const baseId = (idIndex >= 0 && row[idIndex]) || `row-${rowIndex + 1}`
+    let recordId = baseId
+    for (let suffix = 2; ids.has(recordId); suffix++) recordId = `${baseId}-${suffix}`
+    ids.add(recordId)
+
+    const record: DataRecord = { [DEFAULT_ID_COLUMN]: recordId }
+    for (const { index, definition } of columns) record[definition.name] = row[index] ?? ""
+    return record
+  })
+
+  return {
+    name,
+    data,
+    schema: { idColumn: DEFAULT_ID_COLUMN, columns: columns.map(column => column.definition) }
+  }
+}
@@ -0,0 +1,201 @@
+// Normalization utility functions - Clean field values before rules compare them
+import { NodeData } from '@/types/common'
+import { MissingValuePolicy, NormalizerSpec } from '@/types/match-rules'
+import { formatFieldValue } from '@/utils/field-utils'
+
+// A normalizer turns one non-empty value into its canonical form
+export type Normalizer = (value: string, spec: NormalizerSpec) => string
+
+// Canonical salutations keyed by their lowercase form without punctuation
+const SALUTATIONS: Record<string, string> = {
+  mr: "Mr.",
+  mister: "Mr.",
+  mrs: "Mrs.",
+  missus: "Mrs.",
+  ms: "Ms.",
+  miss: "Miss",
+  mx: "Mx.",
+  dr: "Dr.",
+  doctor: "Dr.",
+  prof: "Prof.",
+  professor: "Prof."
+}
+
+// Common English nicknames mapped to their formal first name
+const NICKNAMES: Record<string, string> = {
+  al: "Albert",
+  alex: "Alexander",
+  andy: "Andrew",
+  bill: "William",
+  billy: "William",
+  bob: "Robert",
+  bobby: "Robert",
+  chris: "Christopher",
+  chuck: "Charles",
+  dan: "Daniel",
+  danny: "Daniel",
+  dave: "David",
+  dick: "Richard",
+  ed: "Edward",
+  eddie: "Edward",
+  ellie: "Eleanor",
+  jim: "James",
+  jimmy: "James",
+  joe: "Joseph",
+  johnny: "John",
+  kate: "Katherine",
+  katie: "Katherine",
+  liz: "Elizabeth",
+  beth: "Elizabeth",
+  maggie: "Margaret",
+  meg: "Margaret",
+  mike: "Michael",
+  nick: "Nicholas",
+  pat: "Patricia",
+  patty: "Patricia",
+  peggy: "Margaret",
+  rob: "Robert",
+  rich: "Richard",
+  rick: "Richard",
+  sam: "Samuel",
+  steve: "Steven",
+  sue: "Susan",
+  ted: "Edward",
+  tom: "Thomas",
+  tony: "Anthony",
+  will: "William"
+}
+
+// Letters that Unicode decomposition does not split into base letter + accent
+const FOLDED_LETTERS: Record<string, string> = {
+  "ß": "ss", "æ": "ae", "Æ": "AE", "œ": "oe", "Œ": "OE",
+  "ø": "o", "Ø": "O", "ł": "l", "Ł": "L", "đ": "d", "Đ": "D", "þ": "th", "Þ": "Th"
+}
+
+// Built-in normalizers, keyed by the name used in rule files
+export const normalizerRegistry = new Map<string, Normalizer>([
+  ['trim', value => value.trim()],
+
+  ['collapseWhitespace', value => value.replace(/\s+/g, ' ').trim()],
+
+  ['lowercase', value => value.toLowerCase()],
+
+  ['foldDiacritics', value =>
+    value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[ßæÆœŒøØłŁđĐþÞ]/g, letter => FOLDED_LETTERS[letter])
+  ],
+
+  // "first.last+newsletter@example.com" → "first.last@example.com"
+  ['stripEmailTag', value => value.replace(/\+[^@]*(?=@)/, '')],
+
+  // "(650) 555-0111" → "+16505550111"; values that do not look like a phone number are left as-is
+  ['e164Phone', (value, spec) => {
+    const countryCode = (spec.defaultCountryCode || '1').replace(/\D/g, '')
+    const trimmed = value.trim()
+    let digits = trimmed.replace(/\D/g, '')
+
+    if (trimmed.startsWith('+')) {
+      // Already international
+    } else if (digits.startsWith('00')) {
+      digits = digits.slice(2)
+    } else if (countryCode === '1' && digits.length === 11 && digits.startsWith('1')) {
+      // North American number written with its trunk prefix
+    } else if (digits.length === 10) {
+      digits = countryCode + digits
+    } else if (digits.length > 10 && digits.startsWith('0')) {
+      digits = countryCode + digits.slice(1)
+    }
+
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : value
+  }],
+
+  ['salutation', value => {
+    const key = value.trim().toLowerCase().replace(/\./g, '')
+    return SALUTATIONS[key] || value.trim()
+  }],
+
+  ['nickname', (value, spec) => {
+    const key = value.trim().toLowerCase()
+    const custom = Object.entries(spec.map || {}).find(([nickname]) => nickname.toLowerCase() === key)
+    return custom ? custom[1] : NICKNAMES[key] || value
+  }]
+])
+
+/**
+ * Adds (or replaces) a normalizer in the registry so rule files can refer to it by name
+ */
+export function registerNormalizer(name: string, normalizer: Normalizer) {
+  normalizerRegistry.set(name, normalizer)
+}
+
+/**
+ * Runs a value through a list of normalization steps in order. Empty values are left alone.
+ */
+export function normalizeValue(value: string, steps: NormalizerSpec[]): string {
+  if (!value) return value
+  return steps.reduce((current, step) => {
+    const normalizer = normalizerRegistry.get(step.type)
+    if (!normalizer) {
+      throw new Error(`Unknown normalizer "${step.type}"`)
+    }
+    return normalizer(current, step)
+  }, value)
+}
+
+/**
+ * Checks whether a raw value is one of the field's null tokens ("N/A", "unknown", ...)
+ */
+export function isNullToken(value: string, policy?: MissingValuePolicy): boolean {
+  const token = value.trim().toLowerCase()
+  return (policy?.nullTokens || []).some(nullToken => nullToken.trim().toLowerCase() === token)
+}
+
+/**
+ * Normalizes the configured fields of every node; values matching a field's null
+ * tokens are blanked so they read as missing. A node whose values changed
+ * keeps the originals in `rawValues` so the UI can show both.
+ */
+export function normalizeNodes(
+  nodes: NodeData[],
+  normalization: Record<string, NormalizerSpec[]>,
+  missingValues: Record<string, MissingValuePolicy> = {}
+): NodeData[] {
+  const tokenFields = Object.keys(missingValues).filter(field => (missingValues[field].nullTokens || []).length > 0)
+  const fields = Array.from(new Set([...tokenFields, ...Object.keys(normalization)]))
+  if (fields.length === 0) return nodes
+
+  return nodes.map(node => {
+    const normalized: NodeData = { ...node }
+    const rawValues: Record<string, string> = { ...(node.rawValues || {}) }
+
+    for (const field of fields) {
+      const raw = node[field]
+      const normalizeOne = (value: string) =>
+        isNullToken(value, missingValues[field]) ? '' : normalizeValue(value, normalization[field] || [])
+
+      if (Array.isArray(raw)) {
+        // Multi-valued: normalize each value, dropping null tokens and values that became duplicates
+        const values = Array.from(new Set(raw.map(normalizeOne).filter(Boolean)))
+        if (values.length !== raw.length || values.some((value, index) => value !== raw[index])) {
+          normalized[field] = values.length > 1 ? values : values[0] || ''
+          rawValues[field] = formatFieldValue(raw)
+        }
+        continue
+      }
+      if (typeof raw !== 'string' || raw === '') continue
+
+      const value = normalizeOne(raw)
+      if (value !== raw) {
+        normalized[field] = value
+        rawValues[field] = raw
+      }
+    }
+
+    if (Object.keys(rawValues).length > 0) {
+      normalized.rawValues = rawValues
+    }
+    return normalized
+  })
+}
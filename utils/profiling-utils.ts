@@ -0,0 +1,117 @@
+// Profiling utility functions - Data-quality profile of a dataset: fill rates, values, formats and placeholders
+import { DataRecord } from '@/types/common'
+import { DatasetProfile, FieldProfile, ValueCount } from '@/types/profiling'
+import { DatasetSchema, SchemaColumn } from '@/types/schema'
+import { parseFieldValue, toValueList } from './field-utils'
+
+// Values and formats listed per column; placeholders are all listed
+export const PROFILE_TOP_VALUES = 5
+export const PROFILE_TOP_PATTERNS = 6
+
+// Values typed in when the real one was unknown (compared in lower case)
+const PLACEHOLDER_VALUES = [
+  "n/a", "na", "none", "null", "nil", "unknown", "unk", "tbd", "tba", "test", "dummy", "sample",
+  "not available", "not applicable", "-", "--", "?", ".", "x", "xx", "xxx"
+]
+
+// Email local parts that say there is no email
+const PLACEHOLDER_EMAIL_USERS = ["test", "none", "noemail", "no-email", "noreply", "no-reply", "null", "unknown", "dummy", "fake", "asdf"]
+
+const SEQUENTIAL_DIGITS = "01234567890"
+
+/**
+ * Whether a value looks like a stand-in for missing data: a known placeholder word, one character repeated
+ * ("0000", "xxxx", "999-999-9999"), a run of sequential digits ("1234567"), or an email such as "test@test.com"
+ */
+export function isPlaceholderValue(value: string): boolean {
+  const text = value.trim().toLowerCase()
+  if (!text) return false
+  if (PLACEHOLDER_VALUES.includes(text)) return true
+
+  const compact = text.replace(/[\s().\-+]/g, "")
+  if (compact.length >= 3 && /^(.)\1+$/.test(compact)) return true
+  if (/^\d{6,}$/.test(compact) && SEQUENTIAL_DIGITS.includes(compact)) return true
+
+  const at = text.indexOf("@")
+  return at > 0 && PLACEHOLDER_EMAIL_USERS.includes(text.slice(0, at))
+}
+
+/**
+ * Format of a value: emails by domain ("@example.com"), everything else by shape - digits as 9 one by one,
+ * letter runs as one A, a or Aa, punctuation as is ("(650) 555-0111" → "(999) 999-9999", "Mary Ann" → "Aa Aa")
+ */
+export function getValuePattern(value: string, type: SchemaColumn["type"]): string {
+  const text = value.trim()
+  if (type === "email") {
+    const match = text.match(/^[^\s@]+@([^\s@]+\.[^\s@]+)$/)
+    return match ? `@${match[1].toLowerCase()}` : "not an email"
+  }
+  return text
+    .replace(/\d/g, "9")
+    .replace(/[A-Za-zÀ-ɏ]+/g, run =>
+      run === run.toUpperCase() ? "A" : run === run.toLowerCase() ? "a" : run[0] === run[0].toUpperCase() ? "Aa" : "aA"
+    )
+}
+
+// Adds a record to a value's count, once per record
+function countValue(counts: Map<string, ValueCount>, value: string, recordId: string) {
+  const entry = counts.get(value)
+  if (!entry) {
+    counts.set(value, { value, count: 1, recordIds: [recordId] })
+  } else if (entry.recordIds[entry.recordIds.length - 1] !== recordId) {
+    entry.count++
+    entry.recordIds.push(recordId)
+  }
+}
+
+// Most frequent first; ties in value order so the profile is stable
+const byCount = (a: ValueCount, b: ValueCount) => b.count - a.count || a.value.localeCompare(b.value)
+
+/**
+ * Profile of one column over the records
+ */
+export function profileColumn(records: DataRecord[], column: SchemaColumn, idColumn: string): FieldProfile {
+  const values = new Map<string, ValueCount>()
+  const patterns = new Map<string, ValueCount>()
+  const placeholders = new Map<string, ValueCount>()
+  const missingRecordIds: string[] = []
+
+  records.forEach((record, index) => {
+    const recordId = record[idColumn] || `record-${index}`
+    const cellValues = toValueList(parseFieldValue(column.field, record[column.name], column.multiValued))
+    if (cellValues.length === 0) {
+      missingRecordIds.push(recordId)
+      return
+    }
+    for (const value of cellValues) {
+      countValue(values, value, recordId)
+      countValue(patterns, getValuePattern(value, column.type), recordId)
+      if (isPlaceholderValue(value)) countValue(placeholders, value, recordId)
+    }
+  })
+
+  const filled = records.length - missingRecordIds.length
+  return {
+    name: column.name,
+    field: column.field,
+    label: column.label,
+    type: column.type,
+    filled,
+    fillRate: records.length > 0 ? filled / records.length : 0,
+    distinct: values.size,
+    missingRecordIds,
+    topValues: Array.from(values.values()).sort(byCount).slice(0, PROFILE_TOP_VALUES),
+    patterns: Array.from(patterns.values()).sort(byCount).slice(0, PROFILE_TOP_PATTERNS),
+    placeholders: Array.from(placeholders.values()).sort(byCount)
+  }
+}
+
+/**
+ * Profile of every schema column over the records
+ */
+export function profileDataset(records: DataRecord[], schema: DatasetSchema): DatasetProfile {
+  return {
+    recordCount: records.length,
+    fields: schema.columns.map(column => profileColumn(records, column, schema.idColumn))
+  }
+}
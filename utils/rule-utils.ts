@@ -0,0 +1,1078 @@
+// Rule utility functions - Loading, validating and resolving rule files
+import { parse as parseYaml } from 'yaml'
+import {
+  BlockingConfig,
+  ComparatorSpec,
+  MatchRule,
+  MissingValuePolicy,
+  NormalizerSpec,
+  Ruleset,
+  RuleDefinition,
+  RulesetDefinition,
+  RulesetValidationIssue,
+  RuleExpression,
+  RuleTestCase,
+  ValidatorSpec
+} from '@/types/match-rules'
+import { comparatorRegistry } from '@/utils/comparator-utils'
+import { normalizerRegistry } from '@/utils/normalization-utils'
+import { validatorRegistry } from '@/utils/validation-utils'
+import { blockerRegistry } from '@/utils/blocking-utils'
+import { KNOWN_COLUMNS } from '@/utils/schema-utils'
+
+// Rule file format version understood by this loader
+export const RULESET_FORMAT_VERSION = 1
+
+// Record fields rules may compare in any dataset - a dataset's schema adds its own columns
+export const DEFAULT_RULE_FIELDS = KNOWN_COLUMNS.map(column => column.field)
+
+const RULESET_KEYS = ["version", "name", "levelWeights", "comparators", "normalization", "validation", "missingValues", "blocking", "rules", "tests"]
+const TEST_KEYS = ["name", "records", "expect"]
+const EXPECT_KEYS = ["status", "minScore", "maxScore", "constraint"]
+const RULE_STATUSES = ["positive", "negative", "neutral"]
+const RULE_KEYS = ["name", "fields", "children", "comparators", "weight", "match", "when", "constraint"]
+const LINK_CONSTRAINTS = ["mustLink", "cannotLink"]
+const FIELD_STATES = ["equal", "conflict", "missing"]
+const COMPARATOR_KEYS = ["type", "threshold", "tolerance"]
+const NORMALIZER_KEYS = ["type", "defaultCountryCode", "map"]
+const VALIDATOR_KEYS = ["type", "values", "max", "pattern", "message"]
+const MISSING_POLICY_KEYS = ["oneSided", "similarity", "nullTokens"]
+const FIELD_OUTCOMES = ["missing", "match", "conflict"]
+const BLOCKING_KEYS = ["keys", "maxBlockSize", "sampleSize"]
+const BLOCKING_KEY_KEYS = ["type", "fields", "name", "prefix", "suffix", "window", "bands", "rows", "qgram"]
+const BLOCKING_KEY_NUMBERS = ["prefix", "suffix", "window", "bands", "rows", "qgram"]
+
+/**
+ * Error thrown when a rule file cannot be parsed or fails validation
+ */
+export class RulesetValidationError extends Error {
+  issues: RulesetValidationIssue[]
+
+  constructor(issues: RulesetValidationIssue[]) {
+    super(
+      `Invalid ruleset:\n` +
+      issues.map(issue => `  ${issue.path || '(root)'}: ${issue.message}`).join('\n')
+    )
+    this.name = 'RulesetValidationError'
+    this.issues = issues
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Checks a field → comparator map; `allowedFields` limits which fields may be configured
+function validateComparators(
+  comparators: unknown,
+  path: string,
+  allowedFields: string[],
+  issues: RulesetValidationIssue[]
+) {
+  if (!isPlainObject(comparators)) {
+    issues.push({ path, message: 'Comparators must be an object of field → comparator' })
+    return
+  }
+
+  for (const [field, spec] of Object.entries(comparators)) {
+    const specPath = `${path}.${field}`
+    if (!allowedFields.includes(field)) {
+      issues.push({ path: specPath, message: `Comparator set for field "${field}" which is not compared here` })
+    }
+
+    const type = typeof spec === 'string' ? spec : isPlainObject(spec) ? spec.type : undefined
+    if (typeof type !== 'string') {
+      issues.push({ path: specPath, message: 'Comparator must be a name or an object with a "type"' })
+      continue
+    }
+    if (!comparatorRegistry.has(type)) {
+      issues.push({ path: specPath, message: `Unknown comparator "${type}"` })
+    }
+
+    if (isPlainObject(spec)) {
+      for (const key of Object.keys(spec)) {
+        if (!COMPARATOR_KEYS.includes(key)) {
+          issues.push({ path: `${specPath}.${key}`, message: `Unknown comparator property "${key}"` })
+        }
+      }
+      if (spec.threshold !== undefined &&
+          (typeof spec.threshold !== 'number' || spec.threshold < 0 || spec.threshold > 1)) {
+        issues.push({ path: `${specPath}.threshold`, message: 'Threshold must be a number between 0 and 1' })
+      }
+      if (spec.tolerance !== undefined && (typeof spec.tolerance !== 'number' || spec.tolerance < 0)) {
+        issues.push({ path: `${specPath}.tolerance`, message: 'Tolerance must be a non-negative number' })
+      }
+    }
+  }
+}
+
+// Checks a field → list of normalization steps map
+function validateNormalization(
+  normalization: unknown,
+  knownFields: string[],
+  issues: RulesetValidationIssue[]
+) {
+  if (!isPlainObject(normalization)) {
+    issues.push({ path: 'normalization', message: 'Normalization must be an object of field → steps' })
+    return
+  }
+
+  for (const [field, steps] of Object.entries(normalization)) {
+    const fieldPath = `normalization.${field}`
+    if (!knownFields.includes(field)) {
+      issues.push({ path: fieldPath, message: `Unknown field "${field}"` })
+    }
+    if (!Array.isArray(steps)) {
+      issues.push({ path: fieldPath, message: 'Normalization steps must be an array' })
+      continue
+    }
+
+    steps.forEach((step: unknown, index: number) => {
+      const stepPath = `${fieldPath}[${index}]`
+      const type = typeof step === 'string' ? step : isPlainObject(step) ? step.type : undefined
+      if (typeof type !== 'string') {
+        issues.push({ path: stepPath, message: 'Step must be a name or an object with a "type"' })
+        return
+      }
+      if (!normalizerRegistry.has(type)) {
+        issues.push({ path: stepPath, message: `Unknown normalizer "${type}"` })
+      }
+      if (isPlainObject(step)) {
+        for (const key of Object.keys(step)) {
+          if (!NORMALIZER_KEYS.includes(key)) {
+            issues.push({ path: `${stepPath}.${key}`, message: `Unknown normalizer property "${key}"` })
+          }
+        }
+        if (step.defaultCountryCode !== undefined && !/^\+?\d{1,3}$/.test(String(step.defaultCountryCode))) {
+          issues.push({ path: `${stepPath}.defaultCountryCode`, message: 'Country code must be 1-3 digits' })
+        }
+        if (step.map !== undefined && (!isPlainObject(step.map) ||
+            Object.values(step.map).some(value => typeof value !== 'string'))) {
+          issues.push({ path: `${stepPath}.map`, message: 'Map must be an object of nickname → name' })
+        }
+      }
+    })
+  }
+}
+
+// Checks a field → list of validators map
+function validateValidation(
+  validation: unknown,
+  knownFields: string[],
+  issues: RulesetValidationIssue[]
+) {
+  if (!isPlainObject(validation)) {
+    issues.push({ path: 'validation', message: 'Validation must be an object of field → validators' })
+    return
+  }
+
+  for (const [field, validators] of Object.entries(validation)) {
+    const fieldPath = `validation.${field}`
+    if (!knownFields.includes(field)) {
+      issues.push({ path: fieldPath, message: `Unknown field "${field}"` })
+    }
+    if (!Array.isArray(validators)) {
+      issues.push({ path: fieldPath, message: 'Validators must be an array' })
+      continue
+    }
+
+    validators.forEach((validator: unknown, index: number) => {
+      const validatorPath = `${fieldPath}[${index}]`
+      const type = typeof validator === 'string' ? validator : isPlainObject(validator) ? validator.type : undefined
+      if (typeof type !== 'string') {
+        issues.push({ path: validatorPath, message: 'Validator must be a name or an object with a "type"' })
+        return
+      }
+      if (!validatorRegistry.has(type)) {
+        issues.push({ path: validatorPath, message: `Unknown validator "${type}"` })
+      }
+
+      const spec = isPlainObject(validator) ? validator : {}
+      for (const key of Object.keys(spec)) {
+        if (!VALIDATOR_KEYS.includes(key)) {
+          issues.push({ path: `${validatorPath}.${key}`, message: `Unknown validator property "${key}"` })
+        }
+      }
+      if ((type === 'allowedValues' || spec.values !== undefined) &&
+          (!Array.isArray(spec.values) || spec.values.length === 0 || spec.values.some((value: unknown) => typeof value !== 'string'))) {
+        issues.push({ path: `${validatorPath}.values`, message: 'Values must be a non-empty array of strings' })
+      }
+      if ((type === 'maxLength' || spec.max !== undefined) && !(Number.isInteger(spec.max) && spec.max > 0)) {
+        issues.push({ path: `${validatorPath}.max`, message: 'Max must be a positive integer' })
+      }
+      if (type === 'pattern' || spec.pattern !== undefined) {
+        try {
+          if (typeof spec.pattern !== 'string') throw new Error('Pattern must be a string')
+          new RegExp(spec.pattern)
+        } catch (error) {
+          issues.push({ path: `${validatorPath}.pattern`, message: error instanceof Error ? error.message : 'Invalid pattern' })
+        }
+      }
+      if (spec.message !== undefined && typeof spec.message !== 'string') {
+        issues.push({ path: `${validatorPath}.message`, message: 'Message must be a string' })
+      }
+    })
+  }
+}
+
+// Checks a field → missing-value policy map
+function validateMissingValues(
+  missingValues: unknown,
+  knownFields: string[],
+  issues: RulesetValidationIssue[]
+) {
+  if (!isPlainObject(missingValues)) {
+    issues.push({ path: 'missingValues', message: 'Missing values must be an object of field → policy' })
+    return
+  }
+
+  for (const [field, policy] of Object.entries(missingValues)) {
+    const fieldPath = `missingValues.${field}`
+    if (!knownFields.includes(field)) {
+      issues.push({ path: fieldPath, message: `Unknown field "${field}"` })
+    }
+    if (!isPlainObject(policy)) {
+      issues.push({ path: fieldPath, message: 'Policy must be an object' })
+      continue
+    }
+
+    for (const key of Object.keys(policy)) {
+      if (!MISSING_POLICY_KEYS.includes(key)) {
+        issues.push({ path: `${fieldPath}.${key}`, message: `Unknown missing-value property "${key}"` })
+      }
+    }
+    if (policy.oneSided !== undefined && !FIELD_OUTCOMES.includes(policy.oneSided as string)) {
+      issues.push({ path: `${fieldPath}.oneSided`, message: `One-sided outcome must be one of ${FIELD_OUTCOMES.join(', ')}` })
+    }
+    if (policy.similarity !== undefined &&
+        (typeof policy.similarity !== 'number' || policy.similarity < 0 || policy.similarity > 1)) {
+      issues.push({ path: `${fieldPath}.similarity`, message: 'Similarity must be a number between 0 and 1' })
+    }
+    if (policy.nullTokens !== undefined && (!Array.isArray(policy.nullTokens) ||
+        policy.nullTokens.some(token => typeof token !== 'string' || token.trim() === ''))) {
+      issues.push({ path: `${fieldPath}.nullTokens`, message: 'Null tokens must be an array of non-empty strings' })
+    }
+  }
+}
+
+const isPositiveInteger = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0
+
+// Checks the blocking section: a list of blocking keys plus block size and sample limits
+function validateBlocking(
+  blocking: unknown,
+  knownFields: string[],
+  issues: RulesetValidationIssue[]
+) {
+  if (!isPlainObject(blocking)) {
+    issues.push({ path: 'blocking', message: 'Blocking must be an object with a "keys" array' })
+    return
+  }
+
+  for (const key of Object.keys(blocking)) {
+    if (!BLOCKING_KEYS.includes(key)) {
+      issues.push({ path: `blocking.${key}`, message: `Unknown blocking property "${key}"` })
+    }
+  }
+  for (const limit of ['maxBlockSize', 'sampleSize']) {
+    if (blocking[limit] !== undefined && !isPositiveInteger(blocking[limit])) {
+      issues.push({ path: `blocking.${limit}`, message: 'Must be a positive integer' })
+    }
+  }
+  if (!Array.isArray(blocking.keys)) {
+    issues.push({ path: 'blocking.keys', message: 'Blocking keys must be an array' })
+    return
+  }
+
+  blocking.keys.forEach((spec: unknown, index: number) => {
+    const specPath = `blocking.keys[${index}]`
+    if (!isPlainObject(spec)) {
+      issues.push({ path: specPath, message: 'Blocking key must be an object with a "type" and "fields"' })
+      return
+    }
+
+    for (const key of Object.keys(spec)) {
+      if (!BLOCKING_KEY_KEYS.includes(key)) {
+        issues.push({ path: `${specPath}.${key}`, message: `Unknown blocking key property "${key}"` })
+      }
+    }
+    if (typeof spec.type !== 'string' || !blockerRegistry.has(spec.type)) {
+      issues.push({ path: `${specPath}.type`, message: `Unknown blocker ${JSON.stringify(spec.type)}` })
+    }
+    if (!Array.isArray(spec.fields) || spec.fields.length === 0) {
+      issues.push({ path: `${specPath}.fields`, message: 'Blocking key must list at least one field' })
+    } else {
+      for (const field of spec.fields) {
+        if (!knownFields.includes(field)) {
+          issues.push({ path: `${specPath}.fields`, message: `Unknown field "${field}"` })
+        }
+      }
+    }
+    if (spec.name !== undefined && typeof spec.name !== 'string') {
+      issues.push({ path: `${specPath}.name`, message: 'Name must be a string' })
+    }
+    for (const option of BLOCKING_KEY_NUMBERS) {
+      if (spec[option] !== undefined && !isPositiveInteger(spec[option])) {
+        issues.push({ path: `${specPath}.${option}`, message: 'Must be a positive integer' })
+      }
+    }
+  })
+}
+
+function resolveBlocking(blocking?: BlockingConfig): BlockingConfig {
+  return {
+    ...blocking,
+    keys: (blocking?.keys || []).map(spec => ({ ...spec, fields: [...spec.fields] }))
+  }
+}
+
+function resolveMissingValues(
+  missingValues: Record<string, MissingValuePolicy> = {}
+): Record<string, MissingValuePolicy> {
+  const resolved: Record<string, MissingValuePolicy> = {}
+  for (const [field, policy] of Object.entries(missingValues)) {
+    resolved[field] = { ...policy, ...(policy.nullTokens ? { nullTokens: [...policy.nullTokens] } : {}) }
+  }
+  return resolved
+}
+
+function resolveNormalization(
+  normalization: Record<string, Array<NormalizerSpec | string>> = {}
+): Record<string, NormalizerSpec[]> {
+  const resolved: Record<string, NormalizerSpec[]> = {}
+  for (const [field, steps] of Object.entries(normalization)) {
+    resolved[field] = steps.map(step => (typeof step === 'string' ? { type: step } : { ...step }))
+  }
+  return resolved
+}
+
+function resolveValidation(
+  validation: Record<string, Array<ValidatorSpec | string>> = {}
+): Record<string, ValidatorSpec[]> {
+  const resolved: Record<string, ValidatorSpec[]> = {}
+  for (const [field, validators] of Object.entries(validation)) {
+    resolved[field] = validators.map(validator =>
+      typeof validator === 'string'
+        ? { type: validator }
+        : { ...validator, ...(validator.values ? { values: [...validator.values] } : {}) }
+    )
+  }
+  return resolved
+}
+
+function copyTest(test: RuleTestCase): RuleTestCase {
+  return {
+    name: test.name,
+    records: [{ ...test.records[0] }, { ...test.records[1] }],
+    expect: { ...test.expect }
+  }
+}
+
+function resolveComparators(comparators: Record<string, ComparatorSpec | string> = {}): Record<string, ComparatorSpec> {
+  const resolved: Record<string, ComparatorSpec> = {}
+  for (const [field, spec] of Object.entries(comparators)) {
+    resolved[field] = typeof spec === 'string' ? { type: spec } : { ...spec }
+  }
+  return resolved
+}
+
+// Checks a rule expression tree, reporting unknown shapes, fields and operands
+function validateExpression(
+  expression: unknown,
+  path: string,
+  knownFields: string[],
+  issues: RulesetValidationIssue[]
+) {
+  if (!isPlainObject(expression)) {
+    issues.push({ path, message: 'Expression must be an object' })
+    return
+  }
+
+  const keys = Object.keys(expression)
+  const expectKeys = (allowed: string[]) => {
+    for (const key of keys) {
+      if (!allowed.includes(key)) {
+        issues.push({ path: `${path}.${key}`, message: `Unexpected expression property "${key}"` })
+      }
+    }
+  }
+  const validateOperands = (operands: unknown, operandsPath: string) => {
+    if (!Array.isArray(operands) || operands.length === 0) {
+      issues.push({ path: operandsPath, message: 'Operands must be a non-empty array' })
+      return
+    }
+    operands.forEach((operand, index) => validateExpression(operand, `${operandsPath}[${index}]`, knownFields, issues))
+  }
+
+  if ('field' in expression) {
+    if (typeof expression.field !== 'string' || !knownFields.includes(expression.field)) {
+      issues.push({ path: `${path}.field`, message: `Unknown field "${expression.field}"` })
+    }
+    if ('equals' in expression) {
+      expectKeys(['field', 'equals'])
+      if (typeof expression.equals !== 'string') {
+        issues.push({ path: `${path}.equals`, message: 'Value must be a string' })
+      }
+    } else {
+      expectKeys(['field', 'is'])
+      if (expression.is !== undefined && !FIELD_STATES.includes(expression.is)) {
+        issues.push({ path: `${path}.is`, message: `"is" must be one of ${FIELD_STATES.join(', ')}` })
+      }
+    }
+  } else if ('all' in expression || 'any' in expression) {
+    const operator = 'all' in expression ? 'all' : 'any'
+    expectKeys([operator])
+    validateOperands(expression[operator], `${path}.${operator}`)
+  } else if ('not' in expression) {
+    expectKeys(['not'])
+    validateExpression(expression.not, `${path}.not`, knownFields, issues)
+  } else if ('atLeast' in expression) {
+    expectKeys(['atLeast', 'of'])
+    validateOperands(expression.of, `${path}.of`)
+    const count = Array.isArray(expression.of) ? expression.of.length : 0
+    if (!Number.isInteger(expression.atLeast) || expression.atLeast < 1 || (count > 0 && expression.atLeast > count)) {
+      issues.push({ path: `${path}.atLeast`, message: `"atLeast" must be a whole number from 1 to ${count || 'the number of operands'}` })
+    }
+  } else {
+    issues.push({ path, message: 'Expression must have one of "field", "all", "any", "not" or "atLeast"' })
+  }
+}
+
+// Checks the ruleset's labeled test pairs
+function validateTests(tests: unknown, knownFields: string[], issues: RulesetValidationIssue[]) {
+  if (!Array.isArray(tests)) {
+    issues.push({ path: 'tests', message: 'Tests must be an array' })
+    return
+  }
+
+  const names = new Set<string>()
+  tests.forEach((test: unknown, index: number) => {
+    const path = `tests[${index}]`
+    if (!isPlainObject(test)) {
+      issues.push({ path, message: 'Test must be an object' })
+      return
+    }
+
+    for (const key of Object.keys(test)) {
+      if (!TEST_KEYS.includes(key)) {
+        issues.push({ path: `${path}.${key}`, message: `Unknown test property "${key}"` })
+      }
+    }
+
+    if (typeof test.name !== 'string' || test.name.trim() === '') {
+      issues.push({ path: `${path}.name`, message: 'Test name must be a non-empty string' })
+    } else if (names.has(test.name)) {
+      issues.push({ path: `${path}.name`, message: `Duplicate test name "${test.name}"` })
+    } else {
+      names.add(test.name)
+    }
+
+    if (!Array.isArray(test.records) || test.records.length !== 2) {
+      issues.push({ path: `${path}.records`, message: 'Test must have exactly two records' })
+    } else {
+      test.records.forEach((record: unknown, recordIndex: number) => {
+        const recordPath = `${path}.records[${recordIndex}]`
+        if (!isPlainObject(record)) {
+          issues.push({ path: recordPath, message: 'Record must be an object of field → value' })
+          return
+        }
+        for (const [field, value] of Object.entries(record)) {
+          if (!knownFields.includes(field)) {
+            issues.push({ path: `${recordPath}.${field}`, message: `Unknown field "${field}"` })
+          } else if (typeof value !== 'string') {
+            issues.push({ path: `${recordPath}.${field}`, message: 'Value must be a string' })
+          }
+        }
+      })
+    }
+
+    const expect = test.expect
+    if (!isPlainObject(expect)) {
+      issues.push({ path: `${path}.expect`, message: 'Test must have an "expect" object' })
+      return
+    }
+    for (const key of Object.keys(expect)) {
+      if (!EXPECT_KEYS.includes(key)) {
+        issues.push({ path: `${path}.expect.${key}`, message: `Unknown expectation "${key}"` })
+      }
+    }
+    if (expect.status !== undefined && !RULE_STATUSES.includes(expect.status)) {
+      issues.push({ path: `${path}.expect.status`, message: `Status must be one of ${RULE_STATUSES.join(', ')}` })
+    }
+    if (!EXPECT_KEYS.some(key => expect[key] !== undefined)) {
+      issues.push({ path: `${path}.expect`, message: `Test must expect at least one of ${EXPECT_KEYS.join(', ')}` })
+    }
+    for (const key of ['minScore', 'maxScore']) {
+      if (expect[key] !== undefined && (typeof expect[key] !== 'number' || !isFinite(expect[key]))) {
+        issues.push({ path: `${path}.expect.${key}`, message: 'Score bound must be a number' })
+      }
+    }
+    if (typeof expect.minScore === 'number' && typeof expect.maxScore === 'number' && expect.minScore > expect.maxScore) {
+      issues.push({ path: `${path}.expect`, message: 'minScore is greater than maxScore' })
+    }
+    if (expect.constraint !== undefined && ![...LINK_CONSTRAINTS, 'none'].includes(expect.constraint)) {
+      issues.push({ path: `${path}.expect.constraint`, message: `Constraint must be one of ${[...LINK_CONSTRAINTS, 'none'].join(', ')}` })
+    }
+  })
+}
+
+/**
+ * Lists the fields an expression compares across the two records, in first-use order.
+ * Value tests (`equals`) are conditions, not comparisons, and are left out.
+ */
+export function collectExpressionFields(expression: RuleExpression): string[] {
+  const fields: string[] = []
+  const visit = (node: RuleExpression) => {
+    if ('field' in node) {
+      if (!('equals' in node) && !fields.includes(node.field)) fields.push(node.field)
+    } else if ('all' in node) {
+      node.all.forEach(visit)
+    } else if ('any' in node) {
+      node.any.forEach(visit)
+    } else if ('not' in node) {
+      visit(node.not)
+    } else {
+      node.of.forEach(visit)
+    }
+  }
+  visit(expression)
+  return fields
+}
+
+/**
+ * Renders an expression as readable text, e.g. `party AND NOT salutation conflicts`
+ */
+export function formatExpression(expression: RuleExpression, nested: boolean = false): string {
+  const group = (text: string) => (nested ? `(${text})` : text)
+
+  if ('field' in expression) {
+    if ('equals' in expression) return `${expression.field} = "${expression.equals}"`
+    const is = expression.is || 'equal'
+    return is === 'equal' ? expression.field : is === 'conflict' ? `${expression.field} conflicts` : `${expression.field} missing`
+  }
+  if ('all' in expression) return group(expression.all.map(e => formatExpression(e, true)).join(' AND '))
+  if ('any' in expression) return group(expression.any.map(e => formatExpression(e, true)).join(' OR '))
+  if ('not' in expression) return `NOT ${formatExpression(expression.not, true)}`
+  return `${expression.atLeast} of (${expression.of.map(e => formatExpression(e, true)).join(', ')})`
+}
+
+/**
+ * Parses the text of a JSON or YAML rule file into a raw (unvalidated) object
+ */
+export function parseRulesetText(text: string, fileName: string = 'rules.json'): unknown {
+  const isYaml = /\.ya?ml$/i.test(fileName)
+  try {
+    return isYaml ? parseYaml(text) : JSON.parse(text)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new RulesetValidationError([
+      { path: '', message: `Could not parse ${isYaml ? 'YAML' : 'JSON'}: ${message}` }
+    ])
+  }
+}
+
+/**
+ * Validates a raw rule file object and returns every problem found.
+ * Checks the format version, unknown keys, unknown record fields,
+ * duplicate rule names, unresolved references and reference cycles.
+ */
+export function validateRuleset(
+  raw: unknown,
+  knownFields: string[] = DEFAULT_RULE_FIELDS
+): RulesetValidationIssue[] {
+  const issues: RulesetValidationIssue[] = []
+
+  if (!isPlainObject(raw)) {
+    return [{ path: '', message: 'Ruleset must be an object' }]
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!RULESET_KEYS.includes(key)) {
+      issues.push({ path: key, message: `Unknown ruleset property "${key}"` })
+    }
+  }
+
+  if (raw.version !== RULESET_FORMAT_VERSION) {
+    issues.push({
+      path: 'version',
+      message: `Unsupported version ${JSON.stringify(raw.version)} (expected ${RULESET_FORMAT_VERSION})`
+    })
+  }
+
+  if (raw.name !== undefined && typeof raw.name !== 'string') {
+    issues.push({ path: 'name', message: 'Ruleset name must be a string' })
+  }
+
+  if (raw.levelWeights !== undefined) {
+    if (!isPlainObject(raw.levelWeights)) {
+      issues.push({ path: 'levelWeights', message: 'Level weights must be an object of level → weight' })
+    } else {
+      for (const [level, weight] of Object.entries(raw.levelWeights)) {
+        if (!/^[1-9]\d*$/.test(level)) {
+          issues.push({ path: `levelWeights.${level}`, message: `Level "${level}" must be a positive integer` })
+        }
+        if (typeof weight !== 'number' || !isFinite(weight) || weight < 0) {
+          issues.push({ path: `levelWeights.${level}`, message: 'Weight must be a non-negative number' })
+        }
+      }
+    }
+  }
+
+  if (raw.comparators !== undefined) {
+    validateComparators(raw.comparators, 'comparators', knownFields, issues)
+  }
+
+  if (raw.normalization !== undefined) {
+    validateNormalization(raw.normalization, knownFields, issues)
+  }
+
+  if (raw.validation !== undefined) {
+    validateValidation(raw.validation, knownFields, issues)
+  }
+
+  if (raw.missingValues !== undefined) {
+    validateMissingValues(raw.missingValues, knownFields, issues)
+  }
+
+  if (raw.blocking !== undefined) {
+    validateBlocking(raw.blocking, knownFields, issues)
+  }
+
+  if (raw.tests !== undefined) {
+    validateTests(raw.tests, knownFields, issues)
+  }
+
+  if (!Array.isArray(raw.rules) || raw.rules.length === 0) {
+    issues.push({ path: 'rules', message: 'Ruleset must contain a non-empty "rules" array' })
+    return issues
+  }
+
+  // Collect every inline rule definition, checking its shape along the way
+  const definitions = new Map<string, RuleDefinition>()
+  const references: Array<{ path: string; name: string }> = []
+
+  const collect = (rule: unknown, path: string) => {
+    if (!isPlainObject(rule)) {
+      issues.push({ path, message: 'Rule must be an object' })
+      return
+    }
+
+    for (const key of Object.keys(rule)) {
+      if (!RULE_KEYS.includes(key)) {
+        issues.push({ path: `${path}.${key}`, message: `Unknown rule property "${key}"` })
+      }
+    }
+
+    if (typeof rule.name !== 'string' || rule.name.trim() === '') {
+      issues.push({ path: `${path}.name`, message: 'Rule name must be a non-empty string' })
+    } else if (definitions.has(rule.name)) {
+      issues.push({ path: `${path}.name`, message: `Duplicate rule name "${rule.name}"` })
+    } else {
+      definitions.set(rule.name, rule as RuleDefinition)
+    }
+
+    let matchFields: string[] = []
+    if (rule.match !== undefined) {
+      const issueCount = issues.length
+      validateExpression(rule.match, `${path}.match`, knownFields, issues)
+      if (issues.length === issueCount) matchFields = collectExpressionFields(rule.match as RuleExpression)
+      if (rule.fields !== undefined) {
+        issues.push({ path: `${path}.fields`, message: 'Rules with a "match" expression take their fields from it' })
+      }
+    } else if (!Array.isArray(rule.fields) || rule.fields.length === 0) {
+      issues.push({ path: `${path}.fields`, message: 'Rule must list at least one field' })
+    } else {
+      const seen = new Set<string>()
+      rule.fields.forEach((field: unknown, index: number) => {
+        if (typeof field !== 'string') {
+          issues.push({ path: `${path}.fields[${index}]`, message: 'Field name must be a string' })
+        } else if (!knownFields.includes(field)) {
+          issues.push({ path: `${path}.fields[${index}]`, message: `Unknown field "${field}"` })
+        } else if (seen.has(field)) {
+          issues.push({ path: `${path}.fields[${index}]`, message: `Field "${field}" is listed twice` })
+        } else {
+          seen.add(field)
+        }
+      })
+    }
+
+    if (rule.weight !== undefined && (typeof rule.weight !== 'number' || !isFinite(rule.weight) || rule.weight < 0)) {
+      issues.push({ path: `${path}.weight`, message: 'Weight must be a non-negative number' })
+    }
+
+    if (rule.when !== undefined) {
+      validateExpression(rule.when, `${path}.when`, knownFields, issues)
+    }
+
+    if (rule.constraint !== undefined) {
+      if (!LINK_CONSTRAINTS.includes(rule.constraint)) {
+        issues.push({ path: `${path}.constraint`, message: `Constraint must be one of ${LINK_CONSTRAINTS.join(', ')}` })
+      }
+      if (!/^rules\[\d+\]$/.test(path)) {
+        issues.push({ path: `${path}.constraint`, message: 'Only top-level rules can be constraints' })
+      }
+      if (Array.isArray(rule.children) && rule.children.length > 0) {
+        issues.push({ path: `${path}.children`, message: 'Constraint rules cannot have children' })
+      }
+    }
+
+    if (rule.comparators !== undefined) {
+      const ruleFields = rule.match !== undefined ? matchFields : Array.isArray(rule.fields) ? rule.fields : []
+      validateComparators(rule.comparators, `${path}.comparators`, ruleFields, issues)
+    }
+
+    if (rule.children !== undefined) {
+      if (!Array.isArray(rule.children)) {
+        issues.push({ path: `${path}.children`, message: 'Children must be an array' })
+      } else {
+        rule.children.forEach((child: unknown, index: number) => {
+          const childPath = `${path}.children[${index}]`
+          if (typeof child === 'string') {
+            references.push({ path: childPath, name: child })
+          } else {
+            collect(child, childPath)
+          }
+        })
+      }
+    }
+  }
+
+  raw.rules.forEach((rule: unknown, index: number) => collect(rule, `rules[${index}]`))
+
+  for (const reference of references) {
+    if (!definitions.has(reference.name)) {
+      issues.push({ path: reference.path, message: `Reference to undefined rule "${reference.name}"` })
+    }
+  }
+
+  // Detect cycles through the name graph (only possible via references)
+  const visiting = new Set<string>()
+  const visited = new Set<string>()
+  const reportedCycles = new Set<string>()
+
+  const childNames = (definition: RuleDefinition): string[] =>
+    (Array.isArray(definition.children) ? definition.children : [])
+      .map(child => (typeof child === 'string' ? child : child?.name))
+      .filter((name): name is string => typeof name === 'string' && definitions.has(name))
+
+  const visit = (name: string, trail: string[]) => {
+    if (visiting.has(name)) {
+      const cycle = [...trail.slice(trail.indexOf(name)), name]
+      const key = [...cycle].sort().join('|')
+      if (!reportedCycles.has(key)) {
+        reportedCycles.add(key)
+        issues.push({ path: `rules`, message: `Rule cycle detected: ${cycle.join(' → ')}` })
+      }
+      return
+    }
+    if (visited.has(name)) return
+
+    visiting.add(name)
+    for (const child of childNames(definitions.get(name)!)) {
+      visit(child, [...trail, name])
+    }
+    visiting.delete(name)
+    visited.add(name)
+  }
+
+  for (const name of definitions.keys()) {
+    visit(name, [])
+  }
+
+  return issues
+}
+
+/**
+ * Validates a raw rule file object and resolves it into a Ruleset.
+ * Throws RulesetValidationError listing every issue if the file is invalid.
+ */
+export function loadRuleset(raw: unknown, knownFields: string[] = DEFAULT_RULE_FIELDS): Ruleset {
+  const issues = validateRuleset(raw, knownFields)
+  if (issues.length > 0) {
+    throw new RulesetValidationError(issues)
+  }
+
+  const definition = raw as RulesetDefinition
+
+  // Index every inline definition so references can be resolved
+  const definitions = new Map<string, RuleDefinition>()
+  const index = (rule: RuleDefinition) => {
+    definitions.set(rule.name, rule)
+    for (const child of rule.children || []) {
+      if (typeof child !== 'string') index(child)
+    }
+  }
+  definition.rules.forEach(index)
+
+  const resolve = (rule: RuleDefinition): MatchRule => ({
+    name: rule.name,
+    fields: rule.match ? collectExpressionFields(rule.match) : [...(rule.fields || [])],
+    children: (rule.children || []).map(child =>
+      resolve(typeof child === 'string' ? definitions.get(child)! : child)
+    ),
+    ...(rule.comparators ? { comparators: resolveComparators(rule.comparators) } : {}),
+    ...(rule.weight !== undefined ? { weight: rule.weight } : {}),
+    ...(rule.match ? { match: rule.match } : {}),
+    ...(rule.when ? { when: rule.when } : {}),
+    ...(rule.constraint ? { constraint: rule.constraint } : {})
+  })
+
+  const levelWeights: Record<number, number> = {}
+  for (const [level, weight] of Object.entries(definition.levelWeights || {})) {
+    levelWeights[Number(level)] = weight
+  }
+
+  return {
+    version: definition.version,
+    name: definition.name || 'Untitled Ruleset',
+    rules: definition.rules.map(resolve),
+    levelWeights,
+    comparators: resolveComparators(definition.comparators),
+    normalization: resolveNormalization(definition.normalization),
+    validation: resolveValidation(definition.validation),
+    missingValues: resolveMissingValues(definition.missingValues),
+    blocking: resolveBlocking(definition.blocking),
+    tests: (definition.tests || []).map(copyTest)
+  }
+}
+
+/**
+ * Parses and loads a JSON or YAML rule file in one step
+ */
+export function loadRulesetFromText(
+  text: string,
+  fileName: string,
+  knownFields: string[] = DEFAULT_RULE_FIELDS
+): Ruleset {
+  return loadRuleset(parseRulesetText(text, fileName), knownFields)
+}
+
+/**
+ * Converts a Ruleset back into the rule file format. A rule that appears
+ * more than once in the tree is written inline the first time and as a
+ * name reference afterwards, so shared rules round-trip through loadRuleset.
+ */
+export function serializeRuleset(ruleset: Ruleset): RulesetDefinition {
+  const written = new Set<string>()
+
+  const serialize = (rule: MatchRule): RuleDefinition | string => {
+    if (written.has(rule.name)) return rule.name
+    written.add(rule.name)
+    return {
+      name: rule.name,
+      ...(rule.match ? { match: rule.match } : { fields: [...rule.fields] }),
+      ...(rule.when ? { when: rule.when } : {}),
+      children: rule.children.map(serialize),
+      ...(rule.comparators && Object.keys(rule.comparators).length > 0
+        ? { comparators: { ...rule.comparators } }
+        : {}),
+      ...(rule.weight !== undefined ? { weight: rule.weight } : {}),
+      ...(rule.constraint ? { constraint: rule.constraint } : {})
+    }
+  }
+
+  const levelWeights: Record<string, number> = {}
+  for (const [level, weight] of Object.entries(ruleset.levelWeights)) {
+    levelWeights[level] = weight
+  }
+
+  return {
+    version: ruleset.version,
+    name: ruleset.name,
+    levelWeights,
+    ...(Object.keys(ruleset.comparators).length > 0 ? { comparators: { ...ruleset.comparators } } : {}),
+    ...(Object.keys(ruleset.normalization).length > 0 ? { normalization: { ...ruleset.normalization } } : {}),
+    ...(Object.keys(ruleset.validation).length > 0 ? { validation: resolveValidation(ruleset.validation) } : {}),
+    ...(Object.keys(ruleset.missingValues).length > 0 ? { missingValues: resolveMissingValues(ruleset.missingValues) } : {}),
+    ...(ruleset.blocking.keys.length > 0 ? { blocking: resolveBlocking(ruleset.blocking) } : {}),
+    rules: ruleset.rules.map(rule => serialize(rule) as RuleDefinition),
+    ...(ruleset.tests.length > 0 ? { tests: ruleset.tests.map(copyTest) } : {})
+  }
+}
+
+/**
+ * Weight applied to rules at a depth (1 = top level). Levels deeper than the
+ * configured ones reuse the deepest configured weight; an empty table weighs every level 1.0
+ */
+export function getLevelWeight(level: number, ruleset: Ruleset): number {
+  if (ruleset.levelWeights[level] !== undefined) return ruleset.levelWeights[level]
+
+  const configured = Object.keys(ruleset.levelWeights).map(Number).filter(l => l < level)
+  return configured.length > 0 ? ruleset.levelWeights[Math.max(...configured)] : 1.0
+}
+
+// ============================================================================
+// RULE TREE EDITING - Immutable edits addressed by index path from the top level
+// ============================================================================
+
+function cloneRule(rule: MatchRule): MatchRule {
+  return { ...rule, fields: [...rule.fields], children: rule.children.map(cloneRule) }
+}
+
+function getRuleAt(rules: MatchRule[], path: number[]): MatchRule | undefined {
+  let current: MatchRule | undefined = rules[path[0]]
+  for (const index of path.slice(1)) {
+    current = current?.children[index]
+  }
+  return current
+}
+
+// Returns the sibling list that contains the rule at `path` inside a cloned tree
+function getSiblingsAt(rules: MatchRule[], path: number[]): MatchRule[] {
+  if (path.length === 1) return rules
+  return getRuleAt(rules, path.slice(0, -1))!.children
+}
+
+// Rules with the same name are one shared definition - copy the edited
+// rule over every other occurrence so the tree stays consistent
+function syncSharedRule(rules: MatchRule[], source: MatchRule): MatchRule[] {
+  const sync = (rule: MatchRule): MatchRule =>
+    rule !== source && rule.name === source.name
+      ? cloneRule(source)
+      : { ...rule, children: rule.children.map(sync) }
+  return rules.map(sync)
+}
+
+function editRules(
+  ruleset: Ruleset,
+  edit: (rules: MatchRule[]) => MatchRule | null
+): Ruleset {
+  const rules = ruleset.rules.map(cloneRule)
+  const touched = edit(rules)
+  return { ...ruleset, rules: touched ? syncSharedRule(rules, touched) : rules }
+}
+
+/**
+ * Returns every distinct rule name used in the ruleset
+ */
+export function collectRuleNames(ruleset: Ruleset): Set<string> {
+  const names = new Set<string>()
+  const visit = (rule: MatchRule) => {
+    names.add(rule.name)
+    rule.children.forEach(visit)
+  }
+  ruleset.rules.forEach(visit)
+  return names
+}
+
+/**
+ * Creates the next free "Rule-N" name for a ruleset
+ */
+export function createRuleName(ruleset: Ruleset): string {
+  const names = collectRuleNames(ruleset)
+  let next = names.size + 1
+  while (names.has(`Rule-${next}`)) next++
+  return `Rule-${next}`
+}
+
+/**
+ * Changes the name, fields, weight or constraint of the rule at `path` (and of every shared copy of it)
+ */
+export function updateRuleAt(
+  ruleset: Ruleset,
+  path: number[],
+  patch: Partial<Pick<MatchRule, 'name' | 'fields' | 'weight' | 'constraint'>>
+): Ruleset {
+  const original = getRuleAt(ruleset.rules, path)
+  if (!original) return ruleset
+
+  const update = (rule: MatchRule): MatchRule => {
+    const children = rule.children.map(update)
+    if (rule.name !== original.name) return { ...rule, children }
+
+    const updated: MatchRule = { ...rule, ...patch, children }
+    if (patch.fields) {
+      updated.fields = [...patch.fields]
+      // Drop comparator overrides for fields the rule no longer compares
+      if (rule.comparators) {
+        updated.comparators = Object.fromEntries(
+          Object.entries(rule.comparators).filter(([field]) => patch.fields!.includes(field))
+        )
+      }
+    }
+    return updated
+  }
+
+  return { ...ruleset, rules: ruleset.rules.map(update) }
+}
+
+/**
+ * Sets the score multiplier for one rule depth (1 = top level)
+ */
+export function setLevelWeight(ruleset: Ruleset, level: number, weight: number): Ruleset {
+  return { ...ruleset, levelWeights: { ...ruleset.levelWeights, [level]: weight } }
+}
+
+/**
+ * Adds a rule as the last child of `parentPath`, or as the last top-level rule when `parentPath` is null
+ */
+export function addRuleAt(ruleset: Ruleset, parentPath: number[] | null, rule: MatchRule): Ruleset {
+  return editRules(ruleset, rules => {
+    if (!parentPath) {
+      rules.push(cloneRule(rule))
+      return null
+    }
+    const parent = getRuleAt(rules, parentPath)
+    if (!parent) return null
+    parent.children.push(cloneRule(rule))
+    return parent
+  })
+}
+
+/**
+ * Removes the rule at `path` (only this occurrence of a shared rule)
+ */
+export function removeRuleAt(ruleset: Ruleset, path: number[]): Ruleset {
+  return editRules(ruleset, rules => {
+    getSiblingsAt(rules, path).splice(path[path.length - 1], 1)
+    return path.length > 1 ? getRuleAt(rules, path.slice(0, -1))! : null
+  })
+}
+
+/**
+ * Moves the rule at `path` up (-1) or down (+1) among its siblings
+ */
+export function moveRuleAt(ruleset: Ruleset, path: number[], direction: -1 | 1): Ruleset {
+  const index = path[path.length - 1]
+  const siblings = getSiblingsAt(ruleset.rules, path)
+  const target = index + direction
+  if (target < 0 || target >= siblings.length) return ruleset
+
+  return editRules(ruleset, rules => {
+    const list = getSiblingsAt(rules, path)
+    const [rule] = list.splice(index, 1)
+    list.splice(target, 0, rule)
+    return path.length > 1 ? getRuleAt(rules, path.slice(0, -1))! : null
+  })
+}
+
+/**
+ * Nests the rule at `path` as the last child of its previous sibling
+ */
+export function indentRuleAt(ruleset: Ruleset, path: number[]): Ruleset {
+  const index = path[path.length - 1]
+  if (index === 0) return ruleset
+
+  return editRules(ruleset, rules => {
+    const list = getSiblingsAt(rules, path)
+    const [rule] = list.splice(index, 1)
+    const newParent = list[index - 1]
+    newParent.children.push(rule)
+    return newParent
+  })
+}
+
+/**
+ * Moves the rule at `path` out of its parent, placing it right after the parent
+ */
+export function outdentRuleAt(ruleset: Ruleset, path: number[]): Ruleset {
+  if (path.length < 2) return ruleset
+
+  return editRules(ruleset, rules => {
+    const parentPath = path.slice(0, -1)
+    const parent = getRuleAt(rules, parentPath)!
+    const [rule] = parent.children.splice(path[path.length - 1], 1)
+    getSiblingsAt(rules, parentPath).splice(parentPath[parentPath.length - 1] + 1, 0, rule)
+    // The old parent lost a child - keep its shared copies in step
+    return parent
+  })
+}
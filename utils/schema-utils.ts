@@ -0,0 +1,143 @@
+// Schema utility functions - Dataset schemas (declared or inferred) and turning records into nodes
+import { DataRecord, NodeData, NodeFieldValue } from '@/types/common'
+import { ColumnType, DatasetSchema, DatasetSchemaDefinition, SchemaColumn } from '@/types/schema'
+import { parseFieldValue } from './field-utils'
+
+export const DEFAULT_ID_COLUMN = "Record-Id"
+
+// Columns the default rules are written for - known columns keep these fields, labels and types
+export const KNOWN_COLUMNS: SchemaColumn[] = [
+  { name: "Salutation", field: "salutation", label: "Salutation", type: "text", multiValued: false },
+  { name: "First Name", field: "firstName", label: "First Name", type: "text", multiValued: false },
+  { name: "Last Name", field: "lastName", label: "Last Name", type: "text", multiValued: false },
+  { name: "Email", field: "email", label: "Email", type: "email", multiValued: true },
+  { name: "Phone", field: "phone", label: "Phone", type: "phone", multiValued: true },
+  { name: "Party", field: "party", label: "Party", type: "id", multiValued: false },
+  { name: "Address Line 1", field: "addressLine1", label: "Address Line 1", type: "text", multiValued: false },
+  { name: "City", field: "city", label: "City", type: "text", multiValued: false },
+  { name: "Country", field: "country", label: "Country", type: "text", multiValued: false },
+  { name: "Government ID", field: "governmentId", label: "Government ID", type: "id", multiValued: false },
+  { name: "Middle Name", field: "middleName", label: "Middle Name", type: "text", multiValued: false },
+  { name: "UUID", field: "uuid", label: "UUID", type: "id", multiValued: false }
+]
+
+// The columns of the built-in examples and of new dynamic data
+export const DEFAULT_SCHEMA: DatasetSchema = {
+  idColumn: DEFAULT_ID_COLUMN,
+  columns: KNOWN_COLUMNS.slice(0, 6)
+}
+
+// NodeData properties that are not record fields
+const RESERVED_FIELDS = ["recordId", "clusterId", "rawValues", "x", "y"]
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_PATTERN = /^\+?[\d\s().\-]{7,}$/
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/
+
+/**
+ * Record field name for a column header: "First Name" → "firstName", "UUDI" → "uudi"
+ */
+export function toFieldName(column: string): string {
+  const words = column.split(/[^A-Za-z0-9]+/).filter(Boolean)
+  if (words.length === 0) return "field"
+  const field = words
+    .map((word, index) => index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join("")
+  return /^\d/.test(field) ? `field${field}` : field
+}
+
+/**
+ * Guesses a column's type from its values - a type only when every non-empty value fits it
+ */
+export function inferColumnType(values: string[]): ColumnType {
+  const filled = values.map(value => value.trim()).filter(Boolean)
+  if (filled.length === 0) return "text"
+  // A multi-valued cell fits when each of its values does
+  const fits = (pattern: RegExp) => filled.every(value => value.split(/[;,\n]/).every(part => pattern.test(part.trim())))
+
+  if (fits(EMAIL_PATTERN)) return "email"
+  if (filled.every(value => NUMBER_PATTERN.test(value))) return "number"
+  if (filled.every(value => DATE_PATTERN.test(value))) return "date"
+  if (fits(PHONE_PATTERN) && filled.every(value => (value.match(/\d/g) || []).length >= 7)) return "phone"
+  return "text"
+}
+
+/**
+ * Resolves a dataset's schema: the columns of the records in order, then declared columns no record has.
+ * Declared settings win; known columns keep their usual fields; other columns get a field from their header and a guessed type
+ */
+export function inferSchema(records: DataRecord[], definition: DatasetSchemaDefinition = {}): DatasetSchema {
+  const idColumn = definition.idColumn || DEFAULT_ID_COLUMN
+  const declared = new Map((definition.columns || []).map(column => [column.name, column]))
+
+  const names: string[] = []
+  for (const name of [...records.flatMap(record => Object.keys(record)), ...declared.keys()]) {
+    if (name !== idColumn && !names.includes(name)) names.push(name)
+  }
+
+  const usedFields = new Set(RESERVED_FIELDS)
+  const columns = names.map(name => {
+    const column = declared.get(name)
+    const known = KNOWN_COLUMNS.find(knownColumn => knownColumn.name === name)
+    const type = column?.type || known?.type || inferColumnType(records.map(record => String(record[name] ?? "")))
+
+    // Two headers can map to one field name ("E-mail" and "Email") - number the later ones
+    const baseField = column?.field || known?.field || toFieldName(name)
+    let field = baseField
+    for (let suffix = 2; usedFields.has(field); suffix++) field = `${baseField}${suffix}`
+    usedFields.add(field)
+
+    return {
+      name,
+      field,
+      label: column?.label || known?.label || name,
+      type,
+      multiValued: column?.multiValued ?? known?.multiValued ?? (type === "email" || type === "phone")
+    }
+  })
+
+  return { idColumn, columns }
+}
+
+/**
+ * Record fields of a schema, in column order
+ */
+export function getSchemaFields(schema: DatasetSchema): string[] {
+  return schema.columns.map(column => column.field)
+}
+
+/**
+ * Turns a data record into a graph node with one field per schema column
+ */
+export function recordToNode(record: DataRecord, schema: DatasetSchema, index: number): NodeData {
+  const fields: Record<string, NodeFieldValue> = {}
+  for (const column of schema.columns) {
+    const value = record[column.name]
+    fields[column.field] = parseFieldValue(column.field, value == null ? "" : String(value), column.multiValued)
+  }
+  return {
+    ...fields,
+    recordId: record[schema.idColumn] || `record-${index}`,
+    x: 0, // Positioned by the layout
+    y: 0
+  }
+}
+
+/**
+ * Copy of a record with exactly the schema's columns, as strings
+ */
+export function toDataRecord(record: Record<string, unknown>, schema: DatasetSchema): DataRecord {
+  const copy: DataRecord = { [schema.idColumn]: String(record[schema.idColumn] ?? "") }
+  for (const column of schema.columns) {
+    copy[column.name] = record[column.name] == null ? "" : String(record[column.name])
+  }
+  return copy
+}
+
+/**
+ * A record with the given ID and every other column empty
+ */
+export function createEmptyRecord(schema: DatasetSchema, recordId: string): DataRecord {
+  return toDataRecord({ [schema.idColumn]: recordId }, schema)
+}
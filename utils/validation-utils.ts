@@ -0,0 +1,102 @@
+// Validation utility functions - Declarative per-field checks of the raw values in the data table
+import { DataRecord } from '@/types/common'
+import { RecordErrors, ValidatorSpec } from '@/types/match-rules'
+import { DatasetSchema } from '@/types/schema'
+import { parseFieldValue, toValueList } from '@/utils/field-utils'
+
+// A validator receives a field's values in one record (none when the cell is empty) and returns an error message, or null
+export type Validator = (values: string[], spec: ValidatorSpec) => string | null
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@.]+(\.[^\s@.]+)+$/
+const PHONE_PATTERN = /^\+?[\d\s().\-/]+$/
+
+// Phone numbers have 7 (local) to 15 (E.164 maximum) digits
+const MIN_PHONE_DIGITS = 7
+const MAX_PHONE_DIGITS = 15
+
+// The first value failing a check, for the error message
+const findInvalid = (values: string[], isValid: (value: string) => boolean) => values.find(value => !isValid(value))
+
+// Built-in validators, keyed by the name used in rule files
+export const validatorRegistry = new Map<string, Validator>([
+  ['required', values => (values.length === 0 ? 'Required' : null)],
+
+  ['email', values => {
+    const invalid = findInvalid(values, value => EMAIL_PATTERN.test(value))
+    return invalid !== undefined ? `"${invalid}" is not a valid email address` : null
+  }],
+
+  ['phone', values => {
+    const invalid = findInvalid(values, value => {
+      const digits = value.replace(/\D/g, '').length
+      return PHONE_PATTERN.test(value) && digits >= MIN_PHONE_DIGITS && digits <= MAX_PHONE_DIGITS
+    })
+    return invalid !== undefined ? `"${invalid}" is not a phone number` : null
+  }],
+
+  ['allowedValues', (values, spec) => {
+    const allowed = (spec.values || []).map(value => value.toLowerCase())
+    const invalid = findInvalid(values, value => allowed.includes(value.toLowerCase()))
+    return invalid !== undefined ? `"${invalid}" is not one of ${(spec.values || []).join(', ')}` : null
+  }],
+
+  ['maxLength', (values, spec) => {
+    const max = spec.max ?? Infinity
+    const invalid = findInvalid(values, value => value.length <= max)
+    return invalid !== undefined ? `Longer than ${max} characters` : null
+  }],
+
+  ['pattern', (values, spec) => {
+    const pattern = new RegExp(spec.pattern || '')
+    const invalid = findInvalid(values, value => pattern.test(value))
+    return invalid !== undefined ? `"${invalid}" does not match ${spec.pattern}` : null
+  }]
+])
+
+/**
+ * Adds (or replaces) a validator in the registry so rule files can refer to it by name
+ */
+export function registerValidator(name: string, validator: Validator) {
+  validatorRegistry.set(name, validator)
+}
+
+/**
+ * Error messages for one cell - a multi-valued cell is checked value by value
+ */
+export function validateFieldValue(value: string | undefined, multiValued: boolean, validators: ValidatorSpec[]): string[] {
+  const values = toValueList(parseFieldValue('', (value || '').trim(), multiValued)).map(v => v.trim())
+  const errors: string[] = []
+  for (const spec of validators) {
+    const validator = validatorRegistry.get(spec.type)
+    if (!validator) {
+      throw new Error(`Unknown validator "${spec.type}"`)
+    }
+    const error = validator(values, spec)
+    if (error) errors.push(spec.message || error)
+  }
+  return errors
+}
+
+/**
+ * Validates the records against the validators configured per field. Returns the errors of each
+ * invalid record, keyed by record ID; valid records and fields the schema does not have are left out
+ */
+export function validateRecords(
+  records: DataRecord[],
+  schema: DatasetSchema,
+  validation: Record<string, ValidatorSpec[]>
+): Map<string, RecordErrors> {
+  const columns = schema.columns.filter(column => (validation[column.field] || []).length > 0)
+  const invalid = new Map<string, RecordErrors>()
+  if (columns.length === 0) return invalid
+
+  records.forEach((record, index) => {
+    const errors: RecordErrors = {}
+    for (const column of columns) {
+      const messages = validateFieldValue(record[column.name], column.multiValued, validation[column.field])
+      if (messages.length > 0) errors[column.field] = messages
+    }
+    if (Object.keys(errors).length > 0) invalid.set(record[schema.idColumn] || `record-${index}`, errors)
+  })
+  return invalid
+}
@@ -0,0 +1,113 @@
+// Workspace utility functions - Converting workspaces to their stored and shared forms and loading them back
+import { DataExample, DataRecord } from '@/types/common'
+import { StoredWorkspace, Workspace, WorkspaceFile, WorkspaceSettings } from '@/types/workspace'
+import { DEFAULT_RULE_FIELDS, loadRuleset, serializeRuleset } from './rule-utils'
+import { getSchemaFields, inferSchema } from './schema-utils'
+
+// Marks a JSON file as a workspace, and the version of its layout understood here
+export const WORKSPACE_FILE_FORMAT = 'graph-explorer-workspace'
+export const WORKSPACE_FILE_VERSION = 1
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Checks the dataset part of a stored or shared workspace; records must map column headers to text
+function readDataset(raw: unknown): DataExample {
+  if (!isObject(raw) || typeof raw.name !== 'string' || !Array.isArray(raw.data)) {
+    throw new Error('Workspace dataset must have a name and a data array')
+  }
+  if (raw.schema !== undefined && !isObject(raw.schema)) {
+    throw new Error('Workspace dataset schema must be an object')
+  }
+  raw.data.forEach((record, index) => {
+    if (!isObject(record) || Object.values(record).some(value => typeof value !== 'string')) {
+      throw new Error(`Workspace record ${index + 1} must map column names to text values`)
+    }
+  })
+  return { name: raw.name, ...(raw.schema ? { schema: raw.schema } : {}), data: raw.data as DataRecord[] }
+}
+
+// Settings missing from the file are off
+function readSettings(raw: unknown): WorkspaceSettings {
+  const settings = isObject(raw) ? raw : {}
+  return {
+    showNeutralEdges: settings.showNeutralEdges === true,
+    excludeInvalidRecords: settings.excludeInvalidRecords === true
+  }
+}
+
+// Validates and resolves the parts shared by the stored and file forms. The ruleset may use the dataset's own columns.
+function readWorkspaceContent(raw: Record<string, unknown>): Omit<Workspace, 'id'> {
+  if (typeof raw.name !== 'string' || !raw.name.trim()) {
+    throw new Error('Workspace must have a name')
+  }
+  const dataset = readDataset(raw.dataset)
+  const fields = [...DEFAULT_RULE_FIELDS, ...getSchemaFields(inferSchema(dataset.data, dataset.schema))]
+  return {
+    name: raw.name,
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date().toISOString(),
+    dataset,
+    ruleset: loadRuleset(raw.ruleset, fields),
+    settings: readSettings(raw.settings)
+  }
+}
+
+/**
+ * Converts a workspace into the form kept in the browser's IndexedDB
+ */
+export function toStoredWorkspace(workspace: Workspace): StoredWorkspace {
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    savedAt: workspace.savedAt,
+    dataset: workspace.dataset,
+    ruleset: serializeRuleset(workspace.ruleset),
+    settings: workspace.settings
+  }
+}
+
+/**
+ * Loads a stored workspace back, validating its dataset and ruleset.
+ * Throws if it is malformed (RulesetValidationError for an invalid ruleset).
+ */
+export function loadStoredWorkspace(stored: StoredWorkspace): Workspace {
+  if (typeof stored.id !== 'string') {
+    throw new Error('Stored workspace has no ID')
+  }
+  return { id: stored.id, ...readWorkspaceContent(stored as unknown as Record<string, unknown>) }
+}
+
+/**
+ * Converts a workspace into the file shared with others
+ */
+export function createWorkspaceFile(workspace: Workspace): WorkspaceFile {
+  return {
+    format: WORKSPACE_FILE_FORMAT,
+    version: WORKSPACE_FILE_VERSION,
+    name: workspace.name,
+    savedAt: workspace.savedAt,
+    dataset: workspace.dataset,
+    ruleset: serializeRuleset(workspace.ruleset),
+    settings: workspace.settings
+  }
+}
+
+/**
+ * Parses a workspace file. The result has no ID yet - it is given one when saved in this browser.
+ * Throws if the text is not a workspace file of a supported version, or its dataset or ruleset is invalid.
+ */
+export function parseWorkspaceFile(text: string): Omit<Workspace, 'id'> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (error) {
+    throw new Error(`Workspace file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (!isObject(raw) || raw.format !== WORKSPACE_FILE_FORMAT) {
+    throw new Error('Not a workspace file')
+  }
+  if (raw.version !== WORKSPACE_FILE_VERSION) {
+    throw new Error(`Unsupported workspace file version ${String(raw.version)} (expected ${WORKSPACE_FILE_VERSION})`)
+  }
+  return readWorkspaceContent(raw)
+}
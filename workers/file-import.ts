@@ -0,0 +1,182 @@
+// File Import - Reads CSV/TSV, JSON Lines, Excel and Parquet files into a table, a chunk or row group at a time,
+// so it can report progress and stop in between. Runs in file-import.worker.ts, or on the main thread as a fallback.
+// SheetJS comes from its own CDN (see package.json): the npm registry stops at 0.18.5, which has unpatched
+// prototype pollution and ReDoS advisories, and user files go straight into XLSX.read
+import * as XLSX from 'xlsx'
+import { parquetMetadataAsync, parquetReadObjects, parquetSchema } from 'hyparquet'
+import { compressors } from 'hyparquet-compressors'
+import { ImportedTable, ImportFormat, ImportOptions, ImportProgress, ImportReject } from '@/types/import'
+import { decodeText, detectEncoding, detectImportFormat, parseDelimitedText, tableFromObjects, toCellText } from '@/utils/import-utils'
+
+// Bytes looked at to detect a text file's encoding
+const ENCODING_SAMPLE_BYTES = 64 * 1024
+
+// Spreadsheet rows converted between progress reports and cancellation checks
+const BATCH_SIZE = 5000
+
+export interface ImportCallbacks {
+  onProgress: (progress: ImportProgress) => void
+  isCancelled: () => boolean
+}
+
+// Reads one format; resolves to null when cancelled
+export type ImportReader = (file: File, options: ImportOptions, callbacks: ImportCallbacks) => Promise<ImportedTable | null>
+
+// Lets queued messages (a cancel, or a newer read) through between chunks
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0))
+
+async function detectFileEncoding(file: File) {
+  return detectEncoding(new Uint8Array(await file.slice(0, ENCODING_SAMPLE_BYTES).arrayBuffer()))
+}
+
+// CSV/TSV: decoded and parsed in one go - Papa Parse needs the whole text to detect the delimiter and quoting
+const readDelimitedFile: ImportReader = async (file, options, callbacks) => {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const encoding = options.encoding || detectEncoding(bytes)
+  if (callbacks.isCancelled()) return null
+  return parseDelimitedText(decodeText(bytes, encoding), file.name, encoding, options.delimiter)
+}
+
+// JSON Lines: streamed line by line; each line must hold one JSON object
+const readJsonLinesFile: ImportReader = async (file, options, callbacks) => {
+  const encoding = options.encoding || await detectFileEncoding(file)
+  const decoder = new TextDecoder(encoding)
+  const reader = file.stream().getReader()
+  const objects: Array<Record<string, unknown>> = []
+  const rejects: ImportReject[] = []
+  let pending = ""
+  let lineNumber = 0
+  let bytesRead = 0
+
+  const readLine = (line: string) => {
+    lineNumber++
+    const text = line.trim()
+    if (!text) return
+    try {
+      const value = JSON.parse(text)
+      if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        rejects.push({ row: lineNumber, reason: "Not a JSON object", raw: text })
+      } else {
+        objects.push(value)
+      }
+    } catch (error) {
+      rejects.push({ row: lineNumber, reason: error instanceof Error ? error.message : String(error), raw: text })
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    bytesRead += value.byteLength
+    const lines = (pending + decoder.decode(value, { stream: true })).split("\n")
+    pending = lines.pop() || ""
+    lines.forEach(readLine)
+
+    callbacks.onProgress({ rowsRead: objects.length, bytesRead, totalBytes: file.size })
+    await yieldToEventLoop()
+    if (callbacks.isCancelled()) {
+      await reader.cancel()
+      return null
+    }
+  }
+  readLine(pending + decoder.decode())
+
+  return { fileName: file.name, format: "jsonl", encoding, delimiter: null, ...tableFromObjects(objects), rejects }
+}
+
+// Excel: the first sheet, its first non-blank row as headers. The workbook is unzipped whole; rows are converted in batches
+const readExcelFile: ImportReader = async (file, _options, callbacks) => {
+  const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: "array", cellDates: true })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  const table: ImportedTable = { fileName: file.name, format: "xlsx", encoding: null, delimiter: null, headers: [], rows: [], rejects: [] }
+  if (!sheet?.["!ref"]) return table
+
+  const range = XLSX.utils.decode_range(sheet["!ref"])
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const cells: string[] = []
+    let error: string | null = null
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const address = XLSX.utils.encode_cell({ r, c })
+      const cell = sheet[address] as XLSX.CellObject | undefined
+      if (cell?.t === "e") error = error || `Cell ${address} holds an error (${cell.w || "#ERROR"})`
+      // Numbers as displayed, so formatted codes keep their leading zeros
+      cells.push(!cell || cell.t === "e" ? "" : cell.t === "n" ? (cell.w ?? String(cell.v)).trim() : toCellText(cell.v))
+    }
+
+    if (!error && cells.every(cell => !cell)) continue
+    if (table.headers.length === 0) {
+      table.headers = cells.map((header, index) => header || `Column ${index + 1}`)
+      continue
+    }
+    if (error) {
+      table.rejects.push({ row: r + 1, reason: error, raw: cells.join(",") })
+    } else {
+      table.rows.push(cells)
+    }
+
+    if ((r - range.s.r + 1) % BATCH_SIZE === 0) {
+      callbacks.onProgress({ rowsRead: table.rows.length, bytesRead: file.size, totalBytes: file.size })
+      await yieldToEventLoop()
+      if (callbacks.isCancelled()) return null
+    }
+  }
+
+  return table
+}
+
+// Parquet: the footer first, then one row group at a time, read from the file as needed.
+// A row group that cannot be decoded is rejected as a whole
+const readParquetFile: ImportReader = async (file, _options, callbacks) => {
+  const buffer = { byteLength: file.size, slice: (start: number, end?: number) => file.slice(start, end).arrayBuffer() }
+  const metadata = await parquetMetadataAsync(buffer)
+  const headers = parquetSchema(metadata).children.map(child => child.element.name)
+  const totalRows = Number(metadata.num_rows)
+  const rows: string[][] = []
+  const rejects: ImportReject[] = []
+
+  let rowStart = 0
+  for (const group of metadata.row_groups) {
+    const rowEnd = rowStart + Number(group.num_rows)
+    try {
+      const objects = await parquetReadObjects({ file: buffer, metadata, rowStart, rowEnd, compressors })
+      for (const object of objects) rows.push(headers.map(header => toCellText(object[header])))
+    } catch (error) {
+      rejects.push({
+        row: rowStart + 1,
+        reason: `Rows ${rowStart + 1}-${rowEnd} could not be decoded: ${error instanceof Error ? error.message : String(error)}`,
+        raw: ""
+      })
+    }
+    rowStart = rowEnd
+
+    callbacks.onProgress({ rowsRead: rows.length, bytesRead: Math.round(file.size * rowEnd / Math.max(1, totalRows)), totalBytes: file.size })
+    await yieldToEventLoop()
+    if (callbacks.isCancelled()) return null
+  }
+
+  return { fileName: file.name, format: "parquet", encoding: null, delimiter: null, headers, rows, rejects }
+}
+
+// Readers by format - new formats are added with registerImportReader
+export const importReaderRegistry = new Map<ImportFormat, ImportReader>([
+  ["csv", readDelimitedFile],
+  ["jsonl", readJsonLinesFile],
+  ["xlsx", readExcelFile],
+  ["parquet", readParquetFile]
+])
+
+export function registerImportReader(format: ImportFormat, reader: ImportReader) {
+  importReaderRegistry.set(format, reader)
+}
+
+export async function readImportFile(file: File, options: ImportOptions, callbacks: ImportCallbacks): Promise<ImportedTable | null> {
+  const format = detectImportFormat(file.name)
+  const reader = format && importReaderRegistry.get(format)
+  if (!reader) throw new Error(`Cannot import ${file.name} - use a CSV, TSV, JSON Lines, Excel or Parquet file`)
+
+  const table = await reader(file, options, callbacks)
+  if (table && table.headers.length === 0 && table.rows.length === 0 && table.rejects.length === 0) {
+    throw new Error(`${file.name} holds no data`)
+  }
+  return table
+}
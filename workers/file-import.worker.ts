@@ -0,0 +1,30 @@
+// File Import Worker - Runs readImportFile off the main thread (message protocol in types/import.ts)
+import { ImportRequest, ImportResponse } from '@/types/import'
+import { readImportFile } from './file-import'
+
+const ctx = self as unknown as Worker
+
+// The read that may proceed; a cancel or a newer read stops the others at their next chunk
+let currentRequestId = 0
+
+const post = (response: ImportResponse) => ctx.postMessage(response)
+
+ctx.onmessage = async (event: MessageEvent<ImportRequest>) => {
+  const request = event.data
+  if (request.type === 'cancel') {
+    if (request.requestId === currentRequestId) currentRequestId = 0
+    return
+  }
+
+  const { requestId, file, options } = request
+  currentRequestId = requestId
+  try {
+    const table = await readImportFile(file, options, {
+      onProgress: progress => post({ type: 'progress', requestId, progress }),
+      isCancelled: () => currentRequestId !== requestId
+    })
+    if (table) post({ type: 'done', requestId, table })
+  } catch (error) {
+    post({ type: 'error', requestId, message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,173 @@
+// Graph Pipeline - Blocking → scoring → clustering in batches, so it can report progress,
+// stream edges and stop between batches. Runs in graph-pipeline.worker.ts, or on the main thread as a fallback.
+import { ClusteringResult, Edge } from '@/types/common'
+import { BlockingStats, CandidatePairs } from '@/types/match-rules'
+import { PipelineInput, PipelineProgress, PipelineResult, PipelineRun } from '@/types/pipeline'
+import { calculateEdges } from '@/components/match-score/MatchScoreCalculator'
+import { calculateBlockingStats, calculateCandidatePairs } from '@/components/match-score/CandidateGenerator'
+import { calculateIncrementalEdges } from '@/components/match-score/IncrementalScorer'
+import { clusterIncrementally, performAdvancedClustering, defaultClusteringConfig } from '@/components/clustering/ClusteringAlgorithm'
+
+// Candidate pairs scored between progress reports and cancellation checks
+const BATCH_SIZE = 2000
+
+// Above this share of edited records a full run is about as fast as an incremental one
+const MAX_INCREMENTAL_SHARE = 0.1
+
+export interface PipelineCallbacks {
+  onProgress: (progress: PipelineProgress) => void
+  onEdges: (edges: Edge[]) => void // Edges of each scored batch, in pair order
+  isCancelled: () => boolean
+}
+
+// Lets queued messages (a cancel, or a newer run) through between batches
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0))
+
+export function createEmptyClusteringResult(): ClusteringResult {
+  return {
+    assignments: new Map<string, number>(),
+    clusterGroups: new Map<number, Set<string>>(),
+    qualityMetrics: {
+      totalNodes: 0,
+      totalClusters: 0,
+      positiveIntraClusterRatio: 0,
+      negativeInterClusterRatio: 0,
+      constraintViolations: 0,
+      positiveWithinCluster: 0,
+      positiveBetweenClusters: 0,
+      negativeWithinCluster: 0,
+      negativeBetweenClusters: 0
+    },
+    constraintViolations: [],
+    constraintOverrides: []
+  }
+}
+
+// Indices of the records edited since the previous run, or null when everything must be re-scored:
+// another ruleset or includeNeutral setting, records added, removed or reordered, or too many edits.
+// A record whose exclusion changed counts as edited.
+function findChangedRecords(previous: PipelineInput, input: PipelineInput): number[] | null {
+  if (previous.includeNeutral !== input.includeNeutral || previous.nodes.length !== input.nodes.length) return null
+  if (previous.ruleset !== input.ruleset && JSON.stringify(previous.ruleset) !== JSON.stringify(input.ruleset)) return null
+
+  const wasExcluded = new Set(previous.excludedRecordIds)
+  const isExcluded = new Set(input.excludedRecordIds)
+  const changed: number[] = []
+  for (let i = 0; i < input.nodes.length; i++) {
+    const before = previous.nodes[i]
+    const after = input.nodes[i]
+    if (before.recordId !== after.recordId) return null
+    if (wasExcluded.has(after.recordId) !== isExcluded.has(after.recordId)) changed.push(i)
+    else if (before !== after && JSON.stringify(before) !== JSON.stringify(after)) changed.push(i)
+  }
+  return changed.length <= Math.max(1, input.nodes.length * MAX_INCREMENTAL_SHARE) ? changed : null
+}
+
+// Re-score only the pairs touching the edited records and re-cluster only their clusters
+async function runIncrementally(
+  { nodes, ruleset, includeNeutral, excludedRecordIds }: PipelineInput,
+  previous: PipelineResult,
+  changed: number[],
+  callbacks: PipelineCallbacks
+): Promise<PipelineResult | null> {
+  if (changed.length === 0) return { ...previous, changes: { nodeIds: [], edgeKeys: [], scoredPairs: 0 } }
+
+  await yieldToEventLoop()
+  if (callbacks.isCancelled()) return null
+  const exclude = new Set(excludedRecordIds)
+  const update = calculateIncrementalEdges(nodes, ruleset, previous.candidates, previous.edges, changed, { includeNeutral, exclude })
+  callbacks.onProgress({ phase: 'scoring', done: update.scoredPairs, total: update.scoredPairs })
+
+  await yieldToEventLoop()
+  if (callbacks.isCancelled()) return null
+  callbacks.onProgress({ phase: 'clustering', done: 0, total: 0 })
+
+  const scoredEdges = update.edges.filter(edge => edge.type !== 'neutral')
+  const clusteringResult = scoredEdges.length > 0
+    ? clusterIncrementally(nodes, scoredEdges, previous.clusteringResult, new Set(update.affectedNodeIds), defaultClusteringConfig)
+    : createEmptyClusteringResult()
+
+  let blockingStats: BlockingStats | null = null
+  try {
+    blockingStats = calculateBlockingStats(nodes, ruleset, update.candidates, scoredEdges, exclude)
+  } catch (error) {
+    console.error('Error calculating blocking stats:', error)
+  }
+
+  return {
+    edges: update.edges,
+    candidates: update.candidates,
+    blockingStats,
+    clusteringResult,
+    changes: { nodeIds: update.affectedNodeIds, edgeKeys: update.changedEdges, scoredPairs: update.scoredPairs }
+  }
+}
+
+// Run the whole pipeline for normalized nodes. Resolves to null when cancelled.
+// Given the previous completed run, only records edited since then are re-scored when possible.
+export async function runGraphPipeline(
+  input: PipelineInput,
+  callbacks: PipelineCallbacks,
+  previous: PipelineRun | null = null
+): Promise<PipelineResult | null> {
+  const changed = previous ? findChangedRecords(previous.input, input) : null
+  if (previous && changed) {
+    try {
+      return await runIncrementally(input, previous.result, changed, callbacks)
+    } catch (error) {
+      console.error('Error in incremental update, re-running the whole pipeline:', error)
+    }
+  }
+
+  const { nodes, ruleset, includeNeutral } = input
+  const exclude = new Set(input.excludedRecordIds)
+  callbacks.onProgress({ phase: 'blocking', done: 0, total: 0 })
+  let candidates: CandidatePairs
+  try {
+    candidates = calculateCandidatePairs(nodes, ruleset.blocking, exclude)
+  } catch (error) {
+    console.error('Error generating candidate pairs:', error)
+    candidates = calculateCandidatePairs(nodes, { keys: [] }, exclude)
+  }
+
+  // Score the candidate pairs batch by batch
+  const total = candidates.pairs.length
+  const edges: Edge[] = []
+  for (let start = 0; start < total; start += BATCH_SIZE) {
+    await yieldToEventLoop()
+    if (callbacks.isCancelled()) return null
+
+    const batch = calculateEdges(nodes, ruleset, {
+      includeNeutral,
+      candidates: { pairs: candidates.pairs.slice(start, start + BATCH_SIZE), keys: candidates.keys }
+    })
+    edges.push(...batch)
+    callbacks.onEdges(batch)
+    callbacks.onProgress({ phase: 'scoring', done: Math.min(start + BATCH_SIZE, total), total })
+  }
+
+  await yieldToEventLoop()
+  if (callbacks.isCancelled()) return null
+  callbacks.onProgress({ phase: 'clustering', done: 0, total: 0 })
+
+  // Neutral edges are for display only - clustering and blocking stats use the scored edges
+  const scoredEdges = edges.filter(edge => edge.type !== 'neutral')
+
+  let clusteringResult = createEmptyClusteringResult()
+  if (nodes.length > 0 && scoredEdges.length > 0) {
+    try {
+      clusteringResult = performAdvancedClustering(nodes, scoredEdges, defaultClusteringConfig)
+    } catch (error) {
+      console.error('Error performing clustering:', error)
+    }
+  }
+
+  let blockingStats: BlockingStats | null = null
+  try {
+    blockingStats = calculateBlockingStats(nodes, ruleset, candidates, scoredEdges, exclude)
+  } catch (error) {
+    console.error('Error calculating blocking stats:', error)
+  }
+
+  return { edges, candidates, blockingStats, clusteringResult, changes: null }
+}
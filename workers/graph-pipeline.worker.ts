@@ -0,0 +1,37 @@
+// Graph Pipeline Worker - Runs runGraphPipeline off the main thread (message protocol in types/pipeline.ts)
+import { PipelineRequest, PipelineResponse, PipelineRun } from '@/types/pipeline'
+import { runGraphPipeline } from './graph-pipeline'
+
+const ctx = self as unknown as Worker
+
+// The run that may proceed; a cancel or a newer run stops the others at their next batch
+let currentRunId = 0
+
+// The last completed run, so edits to a few records are re-scored incrementally
+let lastRun: PipelineRun | null = null
+
+const post = (response: PipelineResponse) => ctx.postMessage(response)
+
+ctx.onmessage = async (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data
+  if (request.type === 'cancel') {
+    if (request.runId === currentRunId) currentRunId = 0
+    return
+  }
+
+  const { runId, input } = request
+  currentRunId = runId
+  try {
+    const result = await runGraphPipeline(input, {
+      onProgress: progress => post({ type: 'progress', runId, progress }),
+      onEdges: edges => post({ type: 'edges', runId, edges }),
+      isCancelled: () => currentRunId !== runId
+    }, lastRun)
+    if (result) {
+      lastRun = { input, result }
+      post({ type: 'done', runId, result })
+    }
+  } catch (error) {
+    post({ type: 'error', runId, message: error instanceof Error ? error.message : String(error) })
+  }
+}